@@ -0,0 +1,165 @@
+import { BudgetExceededError } from '../errors.js';
+import type { Logger } from '../logger.js';
+import type { Budget, BudgetUsage, Message, TokenUsage } from '../types.js';
+
+const DEFAULT_WARN_AT = [0.8];
+
+/**
+ * Counts the usage of every query it is shared by against a budget
+ *
+ * Result messages settle a turn's tokens and cost. Tokens of the assistant
+ * messages in between count provisionally, so a runaway turn can be stopped
+ * before it finishes; the cost is only known once the turn ends. Turns are
+ * tracked per query (or conversation), so queries running side by side
+ * don't settle each other's. Each warnAt threshold is logged once.
+ */
+export class BudgetTracker {
+  private settled: BudgetUsage = {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    totalCost: 0,
+    totalTokens: 0
+  };
+  // Usage of each API call in the turns in progress, per query and by
+  // message ID (the CLI repeats it on every content block of a message)
+  private turns = new Map<object, Map<string, TokenUsage>>();
+  private warned = new Set<number>();
+
+  constructor(
+    readonly budget: Budget,
+    private readonly logger?: Logger
+  ) {}
+
+  /**
+   * Usage so far, including the provisional tokens of turns in progress
+   */
+  get usage(): BudgetUsage {
+    const usage = { ...this.settled };
+    for (const turn of this.turns.values()) {
+      for (const tokens of turn.values()) addTokens(usage, tokens);
+    }
+    return usage;
+  }
+
+  /**
+   * Throw BudgetExceededError when the budget is used up, before a query
+   * starts
+   */
+  check(): void {
+    const usage = this.usage;
+    if (isExceeded(this.budget, usage)) throw this.exceededError(usage);
+  }
+
+  /**
+   * Count a message from the CLI
+   *
+   * @param query - Identifies the query (or conversation) the message
+   * belongs to
+   * @returns the error to stop the query with when the budget ran out in
+   * the middle of a turn
+   */
+  record(message: Message, query: object): BudgetExceededError | undefined {
+    if (message.type === 'assistant' && message.usage) {
+      let turn = this.turns.get(query);
+      if (!turn) {
+        turn = new Map();
+        this.turns.set(query, turn);
+      }
+      turn.set(message.id ?? `call-${turn.size}`, message.usage);
+    } else if (message.type === 'result') {
+      this.turns.delete(query);
+      if (message.usage) addTokens(this.settled, message.usage);
+      this.settled.totalCost +=
+        message.cost?.total_cost ?? message.total_cost_usd ?? 0;
+    } else {
+      return undefined;
+    }
+
+    const usage = this.usage;
+    this.warn(usage);
+    if (!isExceeded(this.budget, usage)) return undefined;
+
+    const error = this.exceededError(usage);
+    this.logger?.warn(error.message, { usage, budget: this.budget });
+    // A finished turn has nothing left to stop; the next query is refused
+    return message.type === 'result' ? undefined : error;
+  }
+
+  /**
+   * Drop the provisional tokens of a query that ended without a result
+   */
+  forget(query: object): void {
+    this.turns.delete(query);
+  }
+
+  private warn(usage: BudgetUsage): void {
+    const used = usedFraction(this.budget, usage);
+    for (const threshold of this.budget.warnAt ?? DEFAULT_WARN_AT) {
+      if (used < threshold || this.warned.has(threshold)) continue;
+      this.warned.add(threshold);
+      this.logger?.warn(`${Math.round(threshold * 100)}% of budget used`, {
+        usage,
+        budget: this.budget
+      });
+    }
+  }
+
+  private exceededError(usage: BudgetUsage): BudgetExceededError {
+    const { maxCostUsd, maxTokens } = this.budget;
+    const detail =
+      maxCostUsd !== undefined && usage.totalCost > maxCostUsd
+        ? `$${usage.totalCost.toFixed(4)} of $${maxCostUsd}`
+        : `${usage.totalTokens} of ${maxTokens} tokens`;
+    return new BudgetExceededError(
+      `Budget exceeded: ${detail}`,
+      usage,
+      this.budget
+    );
+  }
+}
+
+function addTokens(usage: BudgetUsage, tokens: TokenUsage): void {
+  usage.inputTokens += tokens.input_tokens ?? 0;
+  usage.outputTokens += tokens.output_tokens ?? 0;
+  usage.cacheCreationTokens += tokens.cache_creation_input_tokens ?? 0;
+  usage.cacheReadTokens += tokens.cache_read_input_tokens ?? 0;
+  usage.totalTokens += (tokens.input_tokens ?? 0) + (tokens.output_tokens ?? 0);
+}
+
+// The largest share of any limit used so far
+function usedFraction(budget: Budget, usage: BudgetUsage): number {
+  return Math.max(
+    budget.maxCostUsd ? usage.totalCost / budget.maxCostUsd : 0,
+    budget.maxTokens ? usage.totalTokens / budget.maxTokens : 0
+  );
+}
+
+function isExceeded(budget: Budget, usage: BudgetUsage): boolean {
+  return (
+    (budget.maxCostUsd !== undefined && usage.totalCost > budget.maxCostUsd) ||
+    (budget.maxTokens !== undefined && usage.totalTokens > budget.maxTokens)
+  );
+}
+
+/**
+ * Enforce a budget on a query: refuse to start when it is used up and stop
+ * the query (ending its process) when it runs out mid-turn
+ */
+export async function* budgetedQuery(
+  messages: AsyncGenerator<Message>,
+  tracker: BudgetTracker
+): AsyncGenerator<Message> {
+  tracker.check();
+  const query = {};
+  try {
+    for await (const message of messages) {
+      const exceeded = tracker.record(message, query);
+      yield message;
+      if (exceeded) throw exceeded;
+    }
+  } finally {
+    tracker.forget(query);
+  }
+}
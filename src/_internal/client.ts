@@ -1,21 +1,42 @@
 import { SubprocessCLITransport } from './transport/subprocess-cli.js';
+import { ControlChannel } from './control.js';
+import { isSdkMcpServer } from '../mcp.js';
 import type {
   ClaudeCodeOptions,
   Message,
   UserMessage,
-  ProcessCompleteHandler
+  HookConfig,
+  ProcessCompleteHandler,
+  SdkMcpServer,
+  PromptInput,
+  RawCLIMessage,
+  CLIControlRequest,
+  CLIOutput,
+  ResultMessage,
+  Transport,
+  TransportConfig
 } from '../types.js';
-import { ClaudeSDKError } from '../errors.js';
+import { QueryDeadline } from './deadline.js';
+import { typedProcessError, typedResultError } from './failures.js';
+import { CLIConnectionError, ProcessError, TimeoutError } from '../errors.js';
+
+// Long enough for a CLI busy with a turn, short enough to notice a hung one
+const CONTROL_REQUEST_TIMEOUT_MS = 30_000;
 
 export class InternalClient {
   private options: ClaudeCodeOptions;
-  private prompt: string;
-  private transport?: SubprocessCLITransport;
+  private prompt: PromptInput;
+  private transport?: Transport;
+  private control?: ControlChannel;
+  private deadline?: QueryDeadline;
   private streamingMode: boolean;
+  // User messages sent whose turn has not produced a result yet
+  private turnsInProgress = 0;
+  private interruptRequested = false;
   private processCompleteHandlers: Array<ProcessCompleteHandler>;
 
   constructor(
-    prompt: string,
+    prompt: PromptInput,
     options: ClaudeCodeOptions = {},
     streamingMode: boolean = false,
     processCompleteHandlers: Array<ProcessCompleteHandler> = []
@@ -39,7 +60,7 @@ export class InternalClient {
   /**
    * Get the active transport for streaming input
    */
-  getTransport(): SubprocessCLITransport | undefined {
+  getTransport(): Transport | undefined {
     return this.transport;
   }
 
@@ -51,24 +72,129 @@ export class InternalClient {
   }
 
   async *processQuery(): AsyncGenerator<Message> {
-    this.transport = new SubprocessCLITransport(
-      this.prompt,
-      this.options,
-      this.streamingMode,
-      this.options.keepAlive,
-      this.processCompleteHandlers
+    const control = new ControlChannel(
+      (message) => transport.writeMessage(message),
+      {
+        canUseTool: this.options.canUseTool,
+        hooks: this.options.hooks,
+        sdkMcpServers: sdkMcpServers(this.options)
+      },
+      (...args) => this.debugLog(...args)
     );
+    const initialize = control.createInitializeRequest();
+    const transport = this.createTransport(
+      initialize ? [initialize.message] : []
+    );
+    const deadline = QueryDeadline.fromOptions(this.options);
+    this.transport = transport;
+    this.control = control;
+    this.deadline = deadline;
+    this.turnsInProgress = 1;
+    let sessionId = this.options.sessionId;
+    let lastResult: ResultMessage | undefined;
+    // Typed error the last result stands for, thrown once the CLI is done
+    let resultError: ProcessError | undefined;
+    let outputs: AsyncGenerator<CLIOutput> | undefined;
+    let expired = false;
+    let killed: Promise<void> | undefined;
+
+    deadline.start();
+    // Don't start a CLI for a query that was aborted before it began
+    const connected = deadline.hasExpired
+      ? deadline.expired
+      : transport.connect();
+    // Kill the CLI as soon as the deadline passes, even while the consumer
+    // is busy with a message we yielded or the CLI is still starting
+    deadline.expired.catch(() => {
+      expired = true;
+      killed = connected.then(
+        () => this.killTransport(transport),
+        () => {}
+      );
+    });
 
     try {
-      await this.transport.connect();
+      await Promise.race([connected, deadline.expired]);
+
+      outputs = transport.receiveMessages();
+      for (;;) {
+        const next = await Promise.race([outputs.next(), deadline.expired]);
+        if (next.done) break;
+        const output = next.value;
+        deadline.activity();
+
+        if (output.type === 'control_response') {
+          control.handleResponse(output);
+          if (output.response.request_id === initialize?.requestId) {
+            // Hooks are policy; don't run the query without them
+            await Promise.race([initialize.response, deadline.expired]);
+          }
+          continue;
+        }
+
+        if (output.type === 'control_request') {
+          // Answer in the background so messages keep flowing while a
+          // callback is waiting (e.g. for a human approval). The CLI is
+          // waiting on us meanwhile, so it is not idle.
+          deadline.pauseIdle();
+          control
+            .handleRequest(output)
+            .catch((error) => {
+              this.debugLog('DEBUG: Failed to answer control request', error);
+            })
+            .finally(() => deadline.resumeIdle());
+          continue;
+        }
 
-      for await (const output of this.transport.receiveMessages()) {
         const message = this.parseMessage(output);
+        if (message?.session_id) sessionId = message.session_id;
+        if (message?.type === 'result') {
+          lastResult = message;
+          this.turnsInProgress = Math.max(0, this.turnsInProgress - 1);
+          // Waiting for the next send() is not idling
+          if (this.turnsInProgress === 0) deadline.pauseIdle();
+          if (this.interruptRequested) {
+            this.interruptRequested = false;
+            message.interrupted = true;
+          }
+        }
         if (message) {
           yield message;
         }
+        if (message?.type === 'result') {
+          resultError = typedResultError(message, {
+            stderr: transport.getStderr?.(),
+            sessionId
+          });
+          // A keepAlive process waits for the next send() instead of
+          // exiting, so there is no exit to wait for
+          if (resultError && this.options.keepAlive) throw resultError;
+        }
+      }
+      // The CLI exited cleanly after an error result
+      if (resultError) throw resultError;
+    } catch (error) {
+      if (error instanceof TimeoutError) {
+        throw new TimeoutError(error.message, error.timeoutMs, error.kind, {
+          stderr: transport.getStderr?.(),
+          sessionId,
+          lastResult
+        });
+      }
+      // Subclasses are already typed; only generic failures are refined
+      if (error instanceof ProcessError && error.constructor === ProcessError) {
+        throw typedProcessError(error, { sessionId, lastResult });
       }
+      throw error;
     } finally {
+      // Only report the failure (or let a consumer that quit go on) once
+      // the CLI is really gone
+      if (expired) await killed;
+      deadline.dispose();
+      // Stop reading when the consumer quit early; after a timeout the read
+      // that lost the race ends by itself once the CLI is killed
+      if (outputs && !expired) await outputs.return(undefined);
+      control.close();
       // For non-streaming mode, disconnect immediately
       // For streaming mode, keep transport alive for potential streaming input
       if (!this.streamingMode && this.transport) {
@@ -78,6 +204,57 @@ export class InternalClient {
     }
   }
 
+  /**
+   * Stop the CLI after an abort or timeout without waiting for it to finish
+   */
+  private async killTransport(transport: Transport): Promise<void> {
+    try {
+      await (transport.kill ? transport.kill() : transport.disconnect());
+    } catch (error) {
+      this.debugLog('DEBUG: Failed to kill the CLI', error);
+    }
+  }
+
+  /**
+   * Create the transport for this query, preferring a custom factory from options
+   */
+  private createTransport(initialMessages: RawCLIMessage[]): Transport {
+    if (this.options.transport) {
+      const config: TransportConfig = {
+        prompt: this.prompt,
+        initialMessages,
+        options: this.options,
+        streamingMode: this.usesStreamingInput(),
+        keepAlive: this.options.keepAlive ?? false,
+        processCompleteHandlers: this.processCompleteHandlers
+      };
+      return this.options.transport(config);
+    }
+
+    return new SubprocessCLITransport(
+      this.prompt,
+      this.options,
+      this.usesStreamingInput(),
+      this.options.keepAlive,
+      this.processCompleteHandlers,
+      initialMessages
+    );
+  }
+
+  /**
+   * The control protocol needs stream-json input, so callbacks such as
+   * canUseTool, hooks and SDK MCP servers switch even single queries to
+   * streaming input
+   */
+  private usesStreamingInput(): boolean {
+    return (
+      this.streamingMode ||
+      !!this.options.canUseTool ||
+      hasHooks(this.options.hooks) ||
+      Object.keys(sdkMcpServers(this.options)).length > 0
+    );
+  }
+
   /**
    * Send streaming input to active transport
    */
@@ -87,10 +264,49 @@ export class InternalClient {
     }
 
     this.transport.writeToStdin(userMessage);
+    if (this.turnsInProgress++ === 0) this.deadline?.resumeIdle();
 
     this.debugLog('DEBUG: Successfully wrote JSONL message to stdin');
   }
 
+  /**
+   * Send a control request to the running CLI and wait for its response,
+   * rejecting with ControlRequestTimeoutError when none arrives in time
+   */
+  async sendControlRequest(
+    request: CLIControlRequest['request']
+  ): Promise<Record<string, unknown>> {
+    if (!this.control || !this.transport?.isActive()) {
+      throw new CLIConnectionError(
+        'No active process to send a control request to'
+      );
+    }
+
+    const pending = this.control.createRequest(
+      request,
+      this.options.controlRequestTimeout ?? CONTROL_REQUEST_TIMEOUT_MS
+    );
+    this.transport.writeMessage(pending.message);
+    return pending.response;
+  }
+
+  /**
+   * Stop the current turn without ending the process. The result message
+   * that ends the turn is marked as interrupted.
+   */
+  async interrupt(): Promise<void> {
+    if (this.turnsInProgress > 0) {
+      this.interruptRequested = true;
+    }
+    try {
+      await this.sendControlRequest({ subtype: 'interrupt' });
+    } catch (error) {
+      // The turn goes on, so its result is not an interrupted one
+      this.interruptRequested = false;
+      throw error;
+    }
+  }
+
   /**
    * Close stdin to signal end of streaming input
    */
@@ -125,28 +341,59 @@ export class InternalClient {
   }
 
   private parseMessage(output: any): Message | null {
-    // Handle stream-json format directly from CLI
+    // Handle stream-json format directly from CLI, keeping the raw object
+    // around so no field the CLI sends is lost
     switch (output.type) {
       case 'user':
         return {
           type: 'user',
           content: output.message?.content || '',
-          session_id: output.session_id
+          session_id: output.session_id,
+          parent_tool_use_id: output.parent_tool_use_id,
+          uuid: output.uuid,
+          raw: output
         };
 
       case 'assistant':
         return {
           type: 'assistant',
           content: output.message?.content || [],
-          session_id: output.session_id
+          session_id: output.session_id,
+          id: output.message?.id,
+          model: output.message?.model,
+          stop_reason: output.message?.stop_reason,
+          stop_sequence: output.message?.stop_sequence,
+          usage: output.message?.usage,
+          parent_tool_use_id: output.parent_tool_use_id,
+          uuid: output.uuid,
+          raw: output
         };
 
       case 'system':
+        if (output.subtype === 'init') {
+          return {
+            type: 'system',
+            subtype: 'init',
+            cwd: output.cwd,
+            model: output.model,
+            tools: output.tools,
+            mcp_servers: output.mcp_servers,
+            permissionMode: output.permissionMode,
+            apiKeySource: output.apiKeySource,
+            slash_commands: output.slash_commands,
+            data: output,
+            session_id: output.session_id,
+            uuid: output.uuid,
+            raw: output
+          };
+        }
         return {
           type: 'system',
           subtype: output.subtype,
           data: output,
-          session_id: output.session_id
+          session_id: output.session_id,
+          uuid: output.uuid,
+          raw: output
         };
 
       case 'result':
@@ -156,6 +403,11 @@ export class InternalClient {
           is_error: output.is_error,
           content: output.result || '',
           result: output.result || '',
+          duration_ms: output.duration_ms,
+          duration_api_ms: output.duration_api_ms,
+          num_turns: output.num_turns,
+          total_cost_usd: output.total_cost_usd,
+          permission_denials: output.permission_denials,
           usage: output.usage,
           cost: output.cost
             ? {
@@ -166,11 +418,23 @@ export class InternalClient {
                 total_cost: output.cost.total_cost || output.total_cost_usd
               }
             : undefined,
-          session_id: output.session_id
+          session_id: output.session_id,
+          uuid: output.uuid,
+          raw: output
+        };
+
+      case 'stream_event':
+        return {
+          type: 'stream_event',
+          event: output.event,
+          session_id: output.session_id,
+          parent_tool_use_id: output.parent_tool_use_id,
+          uuid: output.uuid,
+          raw: output
         };
 
       case 'error':
-        throw new ClaudeSDKError(
+        throw new ProcessError(
           `CLI error: ${output.error?.message || 'Unknown error'}`
         );
 
@@ -180,3 +444,17 @@ export class InternalClient {
     }
   }
 }
+
+function hasHooks(hooks: HookConfig | undefined): boolean {
+  return !!hooks && Object.values(hooks).some((list) => list && list.length);
+}
+
+function sdkMcpServers(
+  options: ClaudeCodeOptions
+): Record<string, SdkMcpServer> {
+  const servers: Record<string, SdkMcpServer> = {};
+  for (const [key, server] of Object.entries(options.mcpServers ?? {})) {
+    if (isSdkMcpServer(server)) servers[key] = server;
+  }
+  return servers;
+}
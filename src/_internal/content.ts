@@ -0,0 +1,94 @@
+import { readFile } from 'node:fs/promises';
+import { extname, resolve } from 'node:path';
+import { ClaudeSDKError } from '../errors.js';
+import type {
+  DocumentBlock,
+  FilePathSource,
+  ImageBlock,
+  UserContentBlock
+} from '../types.js';
+
+const MEDIA_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/plain'
+};
+
+/**
+ * Infer the media type of a file from its extension
+ */
+export function mediaTypeForPath(path: string): string | undefined {
+  return MEDIA_TYPES[extname(path).toLowerCase()];
+}
+
+/**
+ * Replace file path sources with inline content the CLI understands.
+ * Relative paths are resolved against `cwd`.
+ */
+export async function resolveUserContent(
+  blocks: UserContentBlock[],
+  cwd: string = process.cwd()
+): Promise<UserContentBlock[]> {
+  return Promise.all(
+    blocks.map((block) =>
+      block.type !== 'text' && block.source.type === 'path'
+        ? resolvePathSource(block, block.source, cwd)
+        : block
+    )
+  );
+}
+
+async function resolvePathSource(
+  block: ImageBlock | DocumentBlock,
+  source: FilePathSource,
+  cwd: string
+): Promise<ImageBlock | DocumentBlock> {
+  const mediaType = source.media_type ?? mediaTypeForPath(source.path);
+  if (!mediaType) {
+    throw new ClaudeSDKError(
+      `Cannot infer media type of ${source.path}; set source.media_type`
+    );
+  }
+  if (block.type === 'image' && !mediaType.startsWith('image/')) {
+    throw new ClaudeSDKError(
+      `${source.path} is not an image (media type ${mediaType})`
+    );
+  }
+
+  let data: Buffer;
+  try {
+    data = await readFile(resolve(cwd, source.path));
+  } catch (error) {
+    throw new ClaudeSDKError(
+      `Failed to read ${source.path}: ${(error as Error).message}`
+    );
+  }
+
+  if (block.type === 'image') {
+    return {
+      ...block,
+      source: {
+        type: 'base64',
+        media_type: mediaType,
+        data: data.toString('base64')
+      }
+    };
+  }
+
+  return {
+    ...block,
+    source:
+      mediaType === 'text/plain'
+        ? { type: 'text', media_type: 'text/plain', data: data.toString() }
+        : {
+            type: 'base64',
+            media_type: mediaType,
+            data: data.toString('base64')
+          }
+  };
+}
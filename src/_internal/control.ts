@@ -0,0 +1,366 @@
+import { ClaudeSDKError, ControlRequestTimeoutError } from '../errors.js';
+import type {
+  CanUseTool,
+  CLICanUseToolRequest,
+  CLIControlRequest,
+  CLIControlResponse,
+  CLIHookCallbackRequest,
+  DebugCallback,
+  HookConfig,
+  HookEvent,
+  HookRegistration,
+  CLIMcpMessageRequest,
+  RawCLIMessage,
+  SdkMcpServer
+} from '../types.js';
+import { handleMcpMessage } from './sdk-mcp.js';
+
+/**
+ * Callbacks that answer control requests sent by the CLI
+ */
+export interface ControlHandlers {
+  canUseTool?: CanUseTool;
+  hooks?: HookConfig;
+  // In-process MCP servers by their mcpServers key
+  sdkMcpServers?: Record<string, SdkMcpServer>;
+}
+
+// A control request the SDK sent, waiting for the CLI's response
+export interface PendingControlRequest {
+  requestId: string;
+  message: RawCLIMessage;
+  response: Promise<Record<string, unknown>>;
+}
+
+interface RegisteredHook {
+  event: HookEvent;
+  // Declared as a method so hooks for any event can be stored
+  hook(input: unknown): unknown;
+}
+
+const HOOK_EVENTS: HookEvent[] = [
+  'PreToolUse',
+  'PostToolUse',
+  'Stop',
+  'UserPromptSubmit'
+];
+
+/**
+ * SDK side of the CLI control protocol
+ *
+ * The CLI sends `control_request` messages on stdout (for example a
+ * permission check before running a tool) and waits for a `control_response`
+ * with the same request_id on stdin. Failures are reported back to the CLI as
+ * error responses instead of breaking the message stream. Requests the SDK
+ * sends (such as `initialize`, which registers hooks) are answered the same
+ * way in the other direction.
+ */
+export class ControlChannel {
+  private requestCounter = 0;
+  private pending = new Map<
+    string,
+    {
+      resolve: (response: Record<string, unknown>) => void;
+      reject: (error: Error) => void;
+    }
+  >();
+  private hookCallbacks = new Map<string, RegisteredHook>();
+
+  constructor(
+    private write: (message: RawCLIMessage) => void,
+    private handlers: ControlHandlers,
+    private debugLog: DebugCallback = () => {}
+  ) {}
+
+  /**
+   * Build the initialize request that registers hooks with the CLI, or
+   * undefined when there is nothing to register. It must be written before
+   * the first prompt.
+   */
+  createInitializeRequest(): PendingControlRequest | undefined {
+    const hooks: Record<string, unknown[]> = {};
+
+    for (const event of HOOK_EVENTS) {
+      const registrations = this.handlers.hooks?.[event] ?? [];
+      if (registrations.length === 0) continue;
+
+      hooks[event] = registrations.map(({ matcher, hook }) => {
+        const callbackId = `hook_${this.hookCallbacks.size}`;
+        this.hookCallbacks.set(callbackId, { event, hook });
+        return { matcher: matcher ?? null, hookCallbackIds: [callbackId] };
+      });
+    }
+
+    if (Object.keys(hooks).length === 0) return undefined;
+    return this.createRequest({ subtype: 'initialize', hooks });
+  }
+
+  /**
+   * Build a control request and track its response
+   *
+   * @param timeoutMs - Reject with ControlRequestTimeoutError when the CLI
+   * has not answered by then
+   */
+  createRequest(
+    request: CLIControlRequest['request'],
+    timeoutMs?: number
+  ): PendingControlRequest {
+    const requestId = `req_${++this.requestCounter}_${Math.random()
+      .toString(16)
+      .slice(2, 10)}`;
+    const response = new Promise<Record<string, unknown>>((resolve, reject) => {
+      const timer = timeoutMs
+        ? setTimeout(() => {
+            this.pending.delete(requestId);
+            reject(
+              new ControlRequestTimeoutError(
+                `CLI did not answer the ${request.subtype} control request within ${timeoutMs}ms`,
+                request.subtype,
+                timeoutMs
+              )
+            );
+          }, timeoutMs)
+        : undefined;
+      this.pending.set(requestId, {
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      });
+    });
+    // Callers may never await a request (e.g. when the process dies first)
+    response.catch(() => {});
+
+    return {
+      requestId,
+      message: { type: 'control_request', request_id: requestId, request },
+      response
+    };
+  }
+
+  /**
+   * Resolve the request a control response from the CLI belongs to
+   */
+  handleResponse(message: CLIControlResponse): void {
+    const { response } = message;
+    const pending = this.pending.get(response.request_id);
+    if (!pending) {
+      this.debugLog(
+        'DEBUG: [Control] Response for unknown request',
+        response.request_id
+      );
+      return;
+    }
+
+    this.pending.delete(response.request_id);
+    if (response.subtype === 'success') {
+      pending.resolve(response.response ?? {});
+    } else {
+      pending.reject(
+        new ClaudeSDKError(`Control request failed: ${response.error}`)
+      );
+    }
+  }
+
+  /**
+   * Fail all requests still waiting for a response
+   */
+  close(): void {
+    for (const pending of this.pending.values()) {
+      pending.reject(
+        new ClaudeSDKError('CLI exited before answering a control request')
+      );
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Answer a control request from the CLI
+   */
+  async handleRequest(message: CLIControlRequest): Promise<void> {
+    const { request_id: requestId, request } = message;
+    this.debugLog('DEBUG: [Control] Received request', request.subtype);
+
+    let response: Record<string, unknown>;
+    try {
+      response = {
+        subtype: 'success',
+        request_id: requestId,
+        response: await this.dispatch(request)
+      };
+    } catch (error) {
+      this.debugLog('DEBUG: [Control] Request failed', request.subtype, error);
+      response = {
+        subtype: 'error',
+        request_id: requestId,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    this.write({ type: 'control_response', response });
+  }
+
+  private async dispatch(
+    request: CLIControlRequest['request']
+  ): Promise<Record<string, unknown>> {
+    switch (request.subtype) {
+      case 'can_use_tool':
+        return this.canUseTool(request as unknown as CLICanUseToolRequest);
+
+      case 'hook_callback':
+        return this.hookCallback(request as unknown as CLIHookCallbackRequest);
+
+      case 'mcp_message':
+        return this.mcpMessage(request as unknown as CLIMcpMessageRequest);
+
+      default:
+        throw new ClaudeSDKError(
+          `Unsupported control request: ${request.subtype}`
+        );
+    }
+  }
+
+  private async canUseTool(
+    request: CLICanUseToolRequest
+  ): Promise<Record<string, unknown>> {
+    if (!this.handlers.canUseTool) {
+      throw new ClaudeSDKError('No canUseTool callback is registered');
+    }
+
+    const input = request.input ?? {};
+    const result = await this.handlers.canUseTool(request.tool_name, input, {
+      suggestions: request.permission_suggestions ?? [],
+      blockedPath: request.blocked_path ?? undefined,
+      toolUseId: request.tool_use_id
+    });
+
+    if (result.behavior === 'allow') {
+      return {
+        behavior: 'allow',
+        updatedInput: result.updatedInput ?? input
+      };
+    }
+
+    return {
+      behavior: 'deny',
+      message: result.message,
+      ...(result.interrupt && { interrupt: true })
+    };
+  }
+
+  private async hookCallback(
+    request: CLIHookCallbackRequest
+  ): Promise<Record<string, unknown>> {
+    const registered = this.hookCallbacks.get(request.callback_id);
+    if (!registered) {
+      throw new ClaudeSDKError(`Unknown hook callback: ${request.callback_id}`);
+    }
+
+    const result = await registered.hook(request.input);
+    return toHookOutput(
+      registered.event,
+      (result ?? {}) as Record<string, unknown>
+    );
+  }
+
+  private async mcpMessage(
+    request: CLIMcpMessageRequest
+  ): Promise<Record<string, unknown>> {
+    const server = this.handlers.sdkMcpServers?.[request.server_name];
+    if (!server) {
+      throw new ClaudeSDKError(
+        `Unknown SDK MCP server: ${request.server_name}`
+      );
+    }
+
+    return {
+      mcp_response: await handleMcpMessage(server, request.message)
+    };
+  }
+}
+
+/**
+ * Translate a hook result into the JSON hook output the CLI expects
+ */
+function toHookOutput(
+  event: HookEvent,
+  result: Record<string, unknown>
+): Record<string, unknown> {
+  const {
+    decision,
+    reason,
+    additionalContext,
+    updatedInput,
+    updatedMCPToolOutput,
+    ...common
+  } = result;
+  const output: Record<string, unknown> = { ...common };
+  const specific: Record<string, unknown> = {};
+
+  if (event === 'PreToolUse') {
+    if (decision !== undefined) specific.permissionDecision = decision;
+    if (reason !== undefined) specific.permissionDecisionReason = reason;
+    if (updatedInput !== undefined) specific.updatedInput = updatedInput;
+  } else {
+    if (decision !== undefined) output.decision = decision;
+    if (reason !== undefined) output.reason = reason;
+    if (additionalContext !== undefined) {
+      specific.additionalContext = additionalContext;
+    }
+    if (updatedMCPToolOutput !== undefined) {
+      specific.updatedMCPToolOutput = updatedMCPToolOutput;
+    }
+  }
+
+  if (Object.keys(specific).length > 0) {
+    output.hookSpecificOutput = { hookEventName: event, ...specific };
+  }
+  return output;
+}
+
+type HookOf<E extends HookEvent> = NonNullable<HookConfig[E]>[number]['hook'];
+
+/**
+ * Build a registration from the `(matcher, hook)` or `(hook)` arguments of
+ * the onPreToolUse()-style methods
+ */
+export function hookRegistration<Hook>(
+  matcherOrHook: string | Hook,
+  hook?: Hook
+): HookRegistration<Hook> {
+  return typeof matcherOrHook === 'string'
+    ? { matcher: matcherOrHook, hook: hook! }
+    : { hook: matcherOrHook };
+}
+
+/**
+ * Copy of `hooks` with a registration added for `event`. Options objects are
+ * shallow-copied between builders and conversations, so the config is never
+ * mutated in place.
+ */
+export function addHook<E extends HookEvent>(
+  hooks: HookConfig | undefined,
+  event: E,
+  registration: HookRegistration<HookOf<E>>
+): HookConfig {
+  return { ...hooks, [event]: [...(hooks?.[event] ?? []), registration] };
+}
+
+/**
+ * Copy of `hooks` without the given registration
+ */
+export function removeHook<E extends HookEvent>(
+  hooks: HookConfig | undefined,
+  event: E,
+  registration: HookRegistration<HookOf<E>>
+): HookConfig {
+  const registrations = (hooks?.[event] ?? []) as HookRegistration<HookOf<E>>[];
+  return {
+    ...hooks,
+    [event]: registrations.filter((existing) => existing !== registration)
+  };
+}
@@ -0,0 +1,128 @@
+import { AbortError, TimeoutError } from '../errors.js';
+import type {
+  ClaudeCodeOptions,
+  QueryTimeouts,
+  TimeoutKind
+} from '../types.js';
+
+/**
+ * Enforces a query's AbortSignal and its connect, idle and total timeouts
+ *
+ * `expired` rejects with AbortError or TimeoutError as soon as one of them
+ * fires; the client races every wait on the CLI against it. The connect
+ * timer stops at the first message, and the idle timer only runs while a
+ * turn is in progress and the SDK is not answering a control request.
+ */
+export class QueryDeadline {
+  readonly expired: Promise<never>;
+  private fail!: (error: Error) => void;
+  private failure?: Error;
+  private timers = new Map<TimeoutKind, NodeJS.Timeout>();
+  private idlePauses = 0;
+  private done = false;
+  private readonly onAbort = () => {
+    this.expire(new AbortError('Query was aborted', this.signal?.reason));
+  };
+
+  constructor(
+    private readonly signal: AbortSignal | undefined,
+    private readonly timeouts: QueryTimeouts
+  ) {
+    this.expired = new Promise<never>((_, reject) => {
+      this.fail = reject;
+    });
+    // Nobody may be racing against it when it fires
+    this.expired.catch(() => {});
+  }
+
+  static fromOptions(options: ClaudeCodeOptions): QueryDeadline {
+    return new QueryDeadline(options.signal, {
+      connect: options.connectTimeout ?? options.timeout,
+      idle: options.idleTimeout,
+      total: options.totalTimeout
+    });
+  }
+
+  /**
+   * Start the clock; expires immediately when the signal is already aborted
+   */
+  start(): void {
+    if (this.signal?.aborted) {
+      this.onAbort();
+      return;
+    }
+    this.signal?.addEventListener('abort', this.onAbort, { once: true });
+    this.arm('total');
+    this.arm('connect');
+    this.arm('idle');
+  }
+
+  get hasExpired(): boolean {
+    return this.failure !== undefined;
+  }
+
+  /**
+   * Record a message from the CLI
+   */
+  activity(): void {
+    this.clear('connect');
+    if (this.idlePauses === 0) this.arm('idle');
+  }
+
+  /**
+   * Stop the idle timer until resumeIdle() (e.g. between turns)
+   */
+  pauseIdle(): void {
+    this.idlePauses++;
+    this.clear('idle');
+  }
+
+  resumeIdle(): void {
+    this.idlePauses = Math.max(0, this.idlePauses - 1);
+    if (this.idlePauses === 0) this.arm('idle');
+  }
+
+  dispose(): void {
+    this.done = true;
+    for (const kind of [...this.timers.keys()]) this.clear(kind);
+    this.signal?.removeEventListener('abort', this.onAbort);
+  }
+
+  private arm(kind: TimeoutKind): void {
+    const ms = this.timeouts[kind];
+    this.clear(kind);
+    if (this.done || !ms) return;
+
+    this.timers.set(
+      kind,
+      setTimeout(() => {
+        this.expire(
+          new TimeoutError(`${timeoutLabel(kind)} after ${ms}ms`, ms, kind)
+        );
+      }, ms)
+    );
+  }
+
+  private clear(kind: TimeoutKind): void {
+    clearTimeout(this.timers.get(kind));
+    this.timers.delete(kind);
+  }
+
+  private expire(error: Error): void {
+    if (this.done) return;
+    this.dispose();
+    this.failure = error;
+    this.fail(error);
+  }
+}
+
+function timeoutLabel(kind: TimeoutKind): string {
+  switch (kind) {
+    case 'connect':
+      return 'No response from Claude Code CLI';
+    case 'idle':
+      return 'Claude Code CLI went idle';
+    case 'total':
+      return 'Query timed out';
+  }
+}
@@ -0,0 +1,139 @@
+import {
+  AuthenticationError,
+  CLIJSONDecodeError,
+  ContextWindowExceededError,
+  MaxTurnsExceededError,
+  ProcessError,
+  RateLimitError,
+  TimeoutError,
+  ToolPermissionDeniedError
+} from '../errors.js';
+import type { ProcessErrorDetails } from '../errors.js';
+import type { FailureKind, ResultMessage } from '../types.js';
+
+// Checked in order, so an authentication failure is never taken for a
+// transient one
+const FAILURE_PATTERNS: Array<[FailureKind, RegExp]> = [
+  [
+    'auth',
+    /\b401\b|\b403\b|unauthori[sz]ed|invalid (x-)?api.?key|authentication|\/login/i
+  ],
+  [
+    'context_window',
+    /prompt is too long|context (window|length)|input length and `?max_tokens`? exceed/i
+  ],
+  ['rate_limit', /rate.?limit|\b429\b|too many requests/i],
+  ['overloaded', /overloaded|\b529\b|\b503\b|service unavailable/i],
+  [
+    'network',
+    /ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE|socket hang up|network|fetch failed/i
+  ]
+];
+
+/**
+ * Work out why a query failed from the thrown error (including the CLI's
+ * stderr) or from the text of an error result
+ */
+export function classifyFailure(failure: Error | ResultMessage): FailureKind {
+  if (failure instanceof CLIJSONDecodeError) return 'json_decode';
+  if (failure instanceof AuthenticationError) return 'auth';
+  if (failure instanceof RateLimitError) return 'rate_limit';
+  if (failure instanceof MaxTurnsExceededError) return 'max_turns';
+  if (failure instanceof ToolPermissionDeniedError) return 'permission_denied';
+  if (failure instanceof ContextWindowExceededError) return 'context_window';
+  if (failure instanceof TimeoutError) return 'timeout';
+
+  const result = failure instanceof Error ? lastErrorResult(failure) : failure;
+  if (result?.subtype === 'error_max_turns') return 'max_turns';
+
+  const text =
+    failure instanceof Error
+      ? [
+          failure.message,
+          failure instanceof ProcessError ? failure.stderr : undefined,
+          result?.content
+        ].join('\n')
+      : failure.content;
+
+  for (const [kind, pattern] of FAILURE_PATTERNS) {
+    if (pattern.test(text)) return kind;
+  }
+  return 'unknown';
+}
+
+/**
+ * Turn a generic CLI failure into the matching typed error, attaching what
+ * the client saw of the session before it failed
+ */
+export function typedProcessError(
+  error: ProcessError,
+  context: Pick<ProcessErrorDetails, 'sessionId' | 'lastResult'>
+): ProcessError {
+  const details: ProcessErrorDetails = {
+    exitCode: error.exitCode,
+    signal: error.signal,
+    stderr: error.stderr,
+    sessionId: error.sessionId ?? context.sessionId,
+    lastResult: error.lastResult ?? context.lastResult
+  };
+  const enriched = new ProcessError(
+    error.message,
+    details.exitCode,
+    details.signal,
+    details.stderr,
+    details
+  );
+
+  let typed: ProcessError;
+  switch (classifyFailure(enriched)) {
+    case 'max_turns':
+      typed = new MaxTurnsExceededError(error.message, details);
+      break;
+    case 'auth':
+      typed = new AuthenticationError(error.message, details);
+      break;
+    case 'context_window':
+      typed = new ContextWindowExceededError(error.message, details);
+      break;
+    case 'rate_limit':
+      typed = new RateLimitError(error.message, details);
+      break;
+    default:
+      typed = lastErrorResult(enriched)?.permission_denials?.length
+        ? new ToolPermissionDeniedError(error.message, details)
+        : enriched;
+  }
+  typed.stack = error.stack;
+  return typed;
+}
+
+/**
+ * The typed error an error result stands for, or undefined when it has none
+ * (e.g. a transient failure left to the retry logic). The CLI does not always
+ * exit with an error after one, e.g. in keepAlive conversations.
+ */
+export function typedResultError(
+  result: ResultMessage,
+  context: Pick<ProcessErrorDetails, 'stderr' | 'sessionId'>
+): ProcessError | undefined {
+  if (!result.is_error) return undefined;
+
+  const error = typedProcessError(
+    new ProcessError(
+      `Claude Code CLI ended the turn with ${result.subtype}`,
+      undefined,
+      undefined,
+      context.stderr
+    ),
+    { sessionId: context.sessionId, lastResult: result }
+  );
+  return error.constructor === ProcessError ? undefined : error;
+}
+
+// The last result only explains the failure if it was itself an error; a
+// successful result belongs to an earlier turn
+function lastErrorResult(error: Error): ResultMessage | undefined {
+  return error instanceof ProcessError && error.lastResult?.is_error
+    ? error.lastResult
+    : undefined;
+}
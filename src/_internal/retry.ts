@@ -0,0 +1,140 @@
+import { classifyFailure } from './failures.js';
+import { AbortError } from '../errors.js';
+import type { Logger } from '../logger.js';
+import type {
+  ClaudeCodeOptions,
+  FailureKind,
+  Message,
+  QueryFailure,
+  RetryHandler,
+  RetryPolicy
+} from '../types.js';
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_RETRY_ON: FailureKind[] = ['rate_limit', 'overloaded', 'network'];
+
+// Prompt for a retry that resumes a session which already has the original
+// prompt in its transcript
+export const RESUME_PROMPT = 'Continue from where you left off.';
+
+/**
+ * Delay before the given retry (1-based)
+ */
+export function backoffDelay(
+  backoff: RetryPolicy['backoff'],
+  retry: number
+): number {
+  if (typeof backoff === 'number') return backoff;
+  if (typeof backoff === 'function') return backoff(retry);
+
+  const { initialMs = 1000, factor = 2, maxMs = 30000 } = backoff ?? {};
+  return Math.min(initialMs * factor ** (retry - 1), maxMs);
+}
+
+// Wait before a retry, giving up as soon as the query is aborted
+function backoff(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError('Query was aborted', signal.reason));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError('Query was aborted', signal!.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function shouldRetry(policy: RetryPolicy, failure: QueryFailure): boolean {
+  const retryOn = policy.retryOn ?? DEFAULT_RETRY_ON;
+  return typeof retryOn === 'function'
+    ? retryOn(failure)
+    : retryOn.includes(failure.kind);
+}
+
+/**
+ * Run a query, retrying transient failures according to the policy
+ *
+ * A retry resumes the session of the failed attempt when it had started
+ * one, so completed work is not repeated. Messages are yielded as they
+ * arrive, so consumers see the partial output of failed attempts followed by
+ * the retry that continues it; only error results that will be retried are
+ * held back.
+ */
+export async function* retryingQuery(
+  run: (prompt: string, options: ClaudeCodeOptions) => AsyncGenerator<Message>,
+  prompt: string,
+  options: ClaudeCodeOptions,
+  policy: RetryPolicy,
+  onRetry: RetryHandler[] = [],
+  logger?: Logger
+): AsyncGenerator<Message> {
+  const attempts = policy.attempts ?? DEFAULT_ATTEMPTS;
+  let sessionId = options.sessionId;
+  let nextPrompt = prompt;
+
+  for (let attempt = 1; ; attempt++) {
+    const canRetry = attempt < attempts;
+    let failure: QueryFailure | undefined;
+    let started = false;
+
+    try {
+      for await (const message of run(nextPrompt, { ...options, sessionId })) {
+        if (message.session_id) {
+          sessionId = message.session_id;
+          started = true;
+        }
+
+        if (message.type === 'result' && message.is_error && canRetry) {
+          const resultFailure = {
+            kind: classifyFailure(message),
+            result: message
+          };
+          if (shouldRetry(policy, resultFailure)) {
+            failure = resultFailure;
+            continue;
+          }
+        }
+
+        yield message;
+      }
+    } catch (error) {
+      // An aborted query is never retried
+      if (!(error instanceof Error) || !canRetry || options.signal?.aborted) {
+        throw error;
+      }
+
+      const errorFailure = { kind: classifyFailure(error), error };
+      if (!shouldRetry(policy, errorFailure)) throw error;
+      failure = errorFailure;
+    }
+
+    if (!failure) return;
+
+    const retry = attempt;
+    const delayMs = backoffDelay(policy.backoff, retry);
+    logger?.warn('Retrying query after failure', {
+      retry,
+      kind: failure.kind,
+      delayMs,
+      sessionId,
+      error: failure.error?.message ?? failure.result?.content
+    });
+    for (const handler of onRetry) {
+      try {
+        await handler({ ...failure, retry, delayMs, sessionId });
+      } catch (error) {
+        logger?.error('Retry handler error', { error });
+      }
+    }
+
+    await backoff(delayMs, options.signal);
+    if (started) nextPrompt = RESUME_PROMPT;
+  }
+}
@@ -0,0 +1,86 @@
+import type {
+  JSONRPCMessage,
+  SdkMcpServer,
+  SdkMcpToolResult
+} from '../types.js';
+
+// MCP protocol revision the SDK servers speak
+const PROTOCOL_VERSION = '2024-11-05';
+
+// JSON-RPC error codes
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+/**
+ * Answer a JSON-RPC message the CLI sent to an in-process MCP server
+ *
+ * Implements the subset of MCP the CLI uses for tools: initialize,
+ * tools/list and tools/call. Handler errors are returned as tool results
+ * with isError set, as MCP expects, so Claude can see what went wrong.
+ */
+export async function handleMcpMessage(
+  server: SdkMcpServer,
+  message: JSONRPCMessage
+): Promise<Record<string, unknown>> {
+  const id = message.id ?? null;
+  const result = (value: Record<string, unknown>) => ({
+    jsonrpc: '2.0',
+    id,
+    result: value
+  });
+  const error = (code: number, errorMessage: string) => ({
+    jsonrpc: '2.0',
+    id,
+    error: { code, message: errorMessage }
+  });
+
+  switch (message.method) {
+    case 'initialize':
+      return result({
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: { tools: {} },
+        serverInfo: { name: server.name, version: server.version }
+      });
+
+    case 'notifications/initialized':
+      return result({});
+
+    case 'tools/list':
+      return result({
+        tools: server.tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          inputSchema: tool.inputSchema
+        }))
+      });
+
+    case 'tools/call': {
+      const name = message.params?.name;
+      const tool = server.tools.find((candidate) => candidate.name === name);
+      if (!tool) {
+        return error(INVALID_PARAMS, `Unknown tool: ${name}`);
+      }
+
+      let output: SdkMcpToolResult | string;
+      try {
+        output = await tool.handler(message.params?.arguments ?? {});
+      } catch (e) {
+        output = {
+          content: [
+            { type: 'text', text: e instanceof Error ? e.message : String(e) }
+          ],
+          isError: true
+        };
+      }
+
+      return result(
+        typeof output === 'string'
+          ? { content: [{ type: 'text', text: output }] }
+          : { ...output }
+      );
+    }
+
+    default:
+      return error(METHOD_NOT_FOUND, `Method not found: ${message.method}`);
+  }
+}
@@ -0,0 +1,96 @@
+import { isSdkMcpServer } from '../mcp.js';
+import type { Conversation } from '../conversation.js';
+import type { Logger } from '../logger.js';
+import type {
+  ClaudeCodeOptions,
+  MCPServer,
+  SessionEntry,
+  SessionStore
+} from '../types.js';
+
+/**
+ * Record a conversation's prompts, messages, session IDs and options under
+ * a key as they happen
+ *
+ * Partial messages (stream_event token deltas) are not stored: the
+ * assistant message they add up to is.
+ * Writes are queued so entries keep their order, and each message is stored
+ * before the conversation hands it on. Store failures are logged rather than
+ * breaking the conversation.
+ */
+export function recordConversation(
+  conversation: Conversation,
+  store: SessionStore,
+  key: string,
+  logger?: Logger
+): void {
+  let pending: Promise<void> = Promise.resolve();
+  const append = (entry: SessionEntry): Promise<void> => {
+    pending = pending
+      .then(() => store.append(key, entry))
+      .catch((error) => {
+        logger?.error('Session store error', { key, type: entry.type, error });
+      });
+    return pending;
+  };
+  const now = () => new Date().toISOString();
+
+  let recordedOptions: string | undefined;
+  const recordOptions = () => {
+    const options = storableOptions(conversation.getOptions());
+    const serialized = JSON.stringify(options);
+    if (serialized === recordedOptions) return;
+    recordedOptions = serialized;
+    append({ type: 'options', options, at: now() });
+  };
+
+  recordOptions();
+  const sessionId = conversation.getSessionId();
+  if (sessionId) append({ type: 'session_id', sessionId, at: now() });
+
+  conversation.onUserMessage((message) => {
+    // setModel() and friends change the options between prompts
+    recordOptions();
+    append({ type: 'prompt', message, at: now() });
+  });
+  conversation.onSessionId((sessionId) => {
+    if (sessionId) append({ type: 'session_id', sessionId, at: now() });
+  });
+  conversation.stream((message) => {
+    // Token deltas are repeated by the assistant message that follows them
+    if (message.type === 'stream_event') return;
+    return append({ type: 'message', message, at: now() });
+  });
+}
+
+/**
+ * Options that can be stored and restored: callbacks, in-process MCP
+ * servers, the abort signal, the environment and the API key are dropped
+ */
+export function storableOptions(options: ClaudeCodeOptions): ClaudeCodeOptions {
+  const {
+    canUseTool: _canUseTool,
+    hooks: _hooks,
+    transport: _transport,
+    signal: _signal,
+    env: _env,
+    apiKey: _apiKey,
+    sessionId: _sessionId,
+    forkSession: _forkSession,
+    keepAlive: _keepAlive,
+    debug,
+    mcpServers,
+    ...rest
+  } = options;
+  const storable: ClaudeCodeOptions = rest;
+
+  if (typeof debug === 'boolean') storable.debug = debug;
+
+  const external: Record<string, MCPServer> = {};
+  for (const [name, server] of Object.entries(mcpServers ?? {})) {
+    if (!isSdkMcpServer(server)) external[name] = server;
+  }
+  if (Object.keys(external).length > 0) storable.mcpServers = external;
+
+  return storable;
+}
@@ -0,0 +1,247 @@
+import type {
+  JSONSchema,
+  JSONSchemaType,
+  StructuredSchema,
+  StructuredValidator
+} from '../types.js';
+
+export type StructuredOutcome<T> =
+  | { success: true; data: T }
+  | { success: false; failures: string[] };
+
+/**
+ * Check whether a schema is a Zod-style validator rather than JSON Schema
+ */
+export function isStructuredValidator<T>(
+  schema: StructuredSchema<T>
+): schema is StructuredValidator<T> {
+  return typeof (schema as StructuredValidator<T>).safeParse === 'function';
+}
+
+/**
+ * System prompt text asking for a JSON-only response
+ */
+export function structuredInstructions(schema?: JSONSchema): string {
+  const lines = [
+    'Respond with a single JSON value and nothing else: no prose and no code fences.'
+  ];
+  if (schema) {
+    lines.push(
+      'The JSON must match this JSON Schema:',
+      JSON.stringify(schema, null, 2)
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Follow-up prompt telling Claude why its last response was rejected
+ */
+export function retryPrompt(failures: string[]): string {
+  return [
+    'Your last response did not match the required JSON schema:',
+    ...failures.map((failure) => `- ${failure}`),
+    'Reply again with only the corrected JSON.'
+  ].join('\n');
+}
+
+/**
+ * Parse the JSON in a response and validate it against the schema
+ */
+export function parseStructured<T>(
+  schema: StructuredSchema<T>,
+  text: string
+): StructuredOutcome<T> {
+  let value: unknown;
+  try {
+    value = extractJSON(text);
+  } catch (error) {
+    return {
+      success: false,
+      failures: [`Response is not valid JSON: ${(error as Error).message}`]
+    };
+  }
+
+  if (isStructuredValidator(schema)) {
+    const result = schema.safeParse(value);
+    if (result.success) return { success: true, data: result.data };
+    const issues = result.error.issues ?? [];
+    return {
+      success: false,
+      failures:
+        issues.length > 0
+          ? issues.map(
+              (issue) => `${formatPath(['$', ...issue.path])}: ${issue.message}`
+            )
+          : [result.error.message]
+    };
+  }
+
+  const failures = validateJSONSchema(schema, value);
+  return failures.length === 0
+    ? { success: true, data: value as T }
+    : { success: false, failures };
+}
+
+/**
+ * Pull the JSON value out of a response, preferring a fenced code block,
+ * then the whole text, then the outermost {...} or [...]
+ */
+function extractJSON(text: string): unknown {
+  const codeBlock = text.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/);
+  const candidates = [
+    codeBlock?.[1],
+    text.trim(),
+    text.match(/\{[\s\S]*\}|\[[\s\S]*\]/)?.[0]
+  ].filter((candidate): candidate is string => !!candidate);
+
+  let lastError: unknown = new Error('Response is empty');
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Validate a value against a JSON Schema, returning one message per failure.
+ * Supports the keywords listed on the JSONSchema type; others are ignored.
+ */
+export function validateJSONSchema(
+  schema: JSONSchema,
+  value: unknown,
+  path: (string | number)[] = ['$']
+): string[] {
+  const at = formatPath(path);
+
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(
+      (option) => validateJSONSchema(option, value, path).length === 0
+    );
+    if (!matches) return [`${at}: does not match any allowed schema`];
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => hasType(value, type))) {
+      return [`${at}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+
+  const failures: string[] = [];
+
+  if (schema.const !== undefined && !deepEqual(value, schema.const)) {
+    failures.push(`${at}: must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some((option) => deepEqual(value, option))) {
+    failures.push(
+      `${at}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`
+    );
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      failures.push(`${at}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      failures.push(`${at}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      failures.push(`${at}: must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      failures.push(`${at}: must have at most ${schema.maxLength} characters`);
+    }
+    if (
+      schema.pattern !== undefined &&
+      !new RegExp(schema.pattern).test(value)
+    ) {
+      failures.push(`${at}: must match /${schema.pattern}/`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      failures.push(`${at}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      failures.push(`${at}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        failures.push(
+          ...validateJSONSchema(schema.items!, item, [...path, index])
+        );
+      });
+    }
+  }
+
+  if (isObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) {
+        failures.push(`${formatPath([...path, key])}: is required`);
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        failures.push(...validateJSONSchema(property, item, [...path, key]));
+      } else if (schema.additionalProperties === false) {
+        failures.push(`${formatPath([...path, key])}: is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        failures.push(
+          ...validateJSONSchema(schema.additionalProperties, item, [
+            ...path,
+            key
+          ])
+        );
+      }
+    }
+  }
+
+  return failures;
+}
+
+function hasType(value: unknown, type: JSONSchemaType): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'object':
+      return isObject(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeOf(value) === 'object';
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// $.items[0].name
+function formatPath(path: (string | number)[]): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === 'number'
+        ? `[${segment}]`
+        : index === 0
+          ? segment
+          : `.${segment}`
+    )
+    .join('');
+}
@@ -0,0 +1,336 @@
+import { readFile, writeFile, appendFile } from 'node:fs/promises';
+import { CLIConnectionError, CLIJSONDecodeError } from '../../errors.js';
+import { JSONFramer } from './json-framer.js';
+import type {
+  CLIOutput,
+  ProcessCompleteHandler,
+  RawCLIMessage,
+  Transport,
+  TransportConfig,
+  UserMessage
+} from '../../types.js';
+
+/**
+ * A chunk of CLI stdout, exactly as it was read
+ *
+ * `at` is the number of milliseconds since the transport connected. Cassettes
+ * may also contain bare stream-json lines (e.g. the output of
+ * `claude -p --output-format stream-json`), which replay without timing.
+ */
+export interface CassetteEntry {
+  at: number;
+  data: string;
+}
+
+/**
+ * Options for replaying a cassette
+ */
+export interface ReplayOptions {
+  /**
+   * Reproduce the recorded delays between messages. A number scales the
+   * recorded timing (e.g. 2 replays twice as fast).
+   */
+  timing?: boolean | number;
+}
+
+/**
+ * Parse the contents of a cassette file into entries
+ */
+export function parseCassette(contents: string): CassetteEntry[] {
+  const entries: CassetteEntry[] = [];
+
+  for (const line of contents.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(trimmed);
+    } catch (error) {
+      throw new CLIJSONDecodeError(
+        `Failed to parse cassette line: ${error}`,
+        trimmed
+      );
+    }
+    if (typeof value !== 'object' || value === null) {
+      throw new CLIJSONDecodeError('Cassette line is not an object', trimmed);
+    }
+    const parsed = value as Record<string, unknown>;
+
+    // Recorded entries wrap raw stdout (or, in older cassettes, a parsed
+    // message); bare lines are raw stream-json
+    if (typeof parsed.type === 'string') {
+      entries.push({ at: 0, data: trimmed + '\n' });
+    } else if (typeof parsed.data === 'string') {
+      entries.push({ at: Number(parsed.at) || 0, data: parsed.data });
+    } else {
+      entries.push({
+        at: Number(parsed.at) || 0,
+        data: JSON.stringify(parsed.message) + '\n'
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Transport that wraps another transport and records everything it
+ * receives to a JSONL cassette file for later replay
+ *
+ * Transports that share their raw output (see Transport.onRawOutput) are
+ * recorded byte for byte, non-JSON output and chunk boundaries included;
+ * others are recorded one stream-json line per message.
+ *
+ * @example
+ * ```typescript
+ * await claude()
+ *   .withRecording('fixtures/hello.jsonl')
+ *   .query('Say hello')
+ *   .asText();
+ * ```
+ */
+export class RecordingTransport implements Transport {
+  private startedAt = 0;
+  // Appends to the cassette, in the order the output arrived
+  private writes: Promise<void> = Promise.resolve();
+  private stopRecording?: () => void;
+
+  constructor(
+    private inner: Transport,
+    private cassettePath: string
+  ) {}
+
+  async connect(): Promise<void> {
+    await writeFile(this.cassettePath, '');
+    this.startedAt = Date.now();
+    this.stopRecording = this.inner.onRawOutput?.((data) => this.record(data));
+    await this.inner.connect();
+  }
+
+  async *receiveMessages(): AsyncGenerator<CLIOutput> {
+    try {
+      for await (const message of this.inner.receiveMessages()) {
+        if (!this.stopRecording) this.record(JSON.stringify(message) + '\n');
+        // The output holding the message is on disk before it is handled
+        await this.writes;
+        yield message;
+      }
+    } finally {
+      this.stopRecording?.();
+      await this.writes;
+    }
+  }
+
+  writeToStdin(userMessage: UserMessage): void {
+    this.inner.writeToStdin(userMessage);
+  }
+
+  writeMessage(message: RawCLIMessage): void {
+    this.inner.writeMessage(message);
+  }
+
+  closeStdin(): void {
+    this.inner.closeStdin();
+  }
+
+  terminate(): Promise<void> {
+    return this.inner.terminate();
+  }
+
+  disconnect(): Promise<void> {
+    return this.inner.disconnect();
+  }
+
+  // Same fallback as the client's for transports that can't kill
+  kill(): Promise<void> {
+    return this.inner.kill ? this.inner.kill() : this.inner.disconnect();
+  }
+
+  isActive(): boolean {
+    return this.inner.isActive();
+  }
+
+  getStderr(): string {
+    return this.inner.getStderr?.() ?? '';
+  }
+
+  private record(data: string): void {
+    const entry: CassetteEntry = { at: Date.now() - this.startedAt, data };
+    this.writes = this.writes.then(() =>
+      appendFile(this.cassettePath, JSON.stringify(entry) + '\n')
+    );
+  }
+}
+
+/**
+ * Transport that replays a recorded cassette instead of spawning the CLI
+ *
+ * The recorded output goes through the same JSON framing as live stdout, so
+ * split, concatenated or non-JSON output behaves as it did when recorded.
+ *
+ * In keepAlive conversations the replay pauses after each result message
+ * until the next send() or end(), just like a live process would.
+ *
+ * @example
+ * ```typescript
+ * const text = await claude()
+ *   .withReplay('fixtures/hello.jsonl')
+ *   .query('Say hello')
+ *   .asText();
+ * ```
+ */
+export class ReplayTransport implements Transport {
+  private entries: CassetteEntry[] = [];
+  private connected = false;
+  private finished = false;
+  private stdinClosed = false;
+  private wake?: () => void;
+  private pendingInputs = 0;
+  private writtenMessages: UserMessage[] = [];
+  private streamingMode: boolean;
+  private keepAlive: boolean;
+  private processCompleteHandlers: Array<ProcessCompleteHandler>;
+  private maxMessageSize?: number;
+
+  constructor(
+    config: TransportConfig,
+    private cassettePath: string,
+    private replayOptions: ReplayOptions = {}
+  ) {
+    this.maxMessageSize = config.options.maxMessageSize;
+    this.streamingMode = config.streamingMode;
+    this.keepAlive = config.keepAlive;
+    this.processCompleteHandlers = config.processCompleteHandlers;
+  }
+
+  async connect(): Promise<void> {
+    let contents: string;
+    try {
+      contents = await readFile(this.cassettePath, 'utf8');
+    } catch (error) {
+      throw new CLIConnectionError(
+        `Failed to read cassette ${this.cassettePath}: ${error}`
+      );
+    }
+
+    this.entries = parseCassette(contents);
+    this.connected = true;
+  }
+
+  async *receiveMessages(): AsyncGenerator<CLIOutput> {
+    if (!this.connected) {
+      throw new CLIConnectionError('Not connected to cassette');
+    }
+
+    const speed =
+      typeof this.replayOptions.timing === 'number'
+        ? this.replayOptions.timing
+        : 1;
+    let previousAt = 0;
+    const framer = new JSONFramer({ maxMessageSize: this.maxMessageSize });
+
+    replay: for (let i = 0; i < this.entries.length; i++) {
+      if (this.finished) break;
+
+      const entry = this.entries[i]!;
+      if (this.replayOptions.timing && entry.at > previousAt) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, (entry.at - previousAt) / speed)
+        );
+      }
+      previousAt = entry.at;
+
+      const messages = framer.push(entry.data) as CLIOutput[];
+      for (let j = 0; j < messages.length; j++) {
+        if (this.finished) break replay;
+        yield messages[j]!;
+
+        const isResult = (messages[j] as RawCLIMessage).type === 'result';
+        const hasMore = j < messages.length - 1 || i < this.entries.length - 1;
+        if (isResult && this.streamingMode && this.keepAlive && hasMore) {
+          // A live keepAlive process idles here until more input arrives
+          const hasInput = await this.waitForInput();
+          if (!hasInput) break replay;
+        }
+      }
+    }
+
+    this.finished = true;
+
+    for (const handler of this.processCompleteHandlers) {
+      try {
+        handler(0);
+      } catch {
+        // Handlers must not break replay
+      }
+    }
+  }
+
+  writeToStdin(userMessage: UserMessage): void {
+    if (!this.isActive()) {
+      throw new Error('No active process to write to');
+    }
+
+    this.writtenMessages.push(userMessage);
+    this.pendingInputs++;
+    this.wakeUp();
+  }
+
+  // Control responses cannot change a recorded session
+  writeMessage(): void {}
+
+  /**
+   * Messages written via writeToStdin() during the replay
+   */
+  getWrittenMessages(): UserMessage[] {
+    return [...this.writtenMessages];
+  }
+
+  closeStdin(): void {
+    this.stdinClosed = true;
+    this.wakeUp();
+  }
+
+  async terminate(): Promise<void> {
+    this.finish();
+  }
+
+  async disconnect(): Promise<void> {
+    this.finish();
+  }
+
+  isActive(): boolean {
+    return (
+      this.connected &&
+      this.streamingMode &&
+      !this.finished &&
+      !this.stdinClosed
+    );
+  }
+
+  private finish(): void {
+    this.finished = true;
+    this.stdinClosed = true;
+    this.wakeUp();
+  }
+
+  private async waitForInput(): Promise<boolean> {
+    while (this.pendingInputs === 0 && !this.stdinClosed) {
+      await new Promise<void>((resolve) => {
+        this.wake = resolve;
+      });
+    }
+    if (this.pendingInputs === 0) {
+      return false;
+    }
+    this.pendingInputs--;
+    return true;
+  }
+
+  private wakeUp(): void {
+    const wake = this.wake;
+    this.wake = undefined;
+    wake?.();
+  }
+}
@@ -0,0 +1,163 @@
+import { execa } from 'execa';
+import which from 'which';
+import { platform } from 'node:os';
+import { join } from 'node:path';
+import { homedir } from 'node:os';
+import { access, constants } from 'node:fs/promises';
+
+// A place the CLI was looked for
+export interface CLICandidate {
+  path: string;
+  source: 'executablePath' | 'local' | 'PATH' | 'common' | 'npm';
+  found: boolean;
+}
+
+export interface CLIDiscovery {
+  // The CLI to run, or null when no candidate worked
+  path: string | null;
+  // Every candidate checked, in order
+  candidates: CLICandidate[];
+  // Output of `--version`, when the search had to run it
+  version?: string;
+}
+
+// Successful searches, per executablePath ('' for the automatic search)
+const discoveries = new Map<string, Promise<CLIDiscovery>>();
+
+/**
+ * Find the Claude Code CLI, once per process
+ *
+ * A failed search is not remembered, so a CLI installed later is found by
+ * the next one.
+ */
+export function discoverCLI(executablePath?: string): Promise<CLIDiscovery> {
+  const key = executablePath ?? '';
+  let discovery = discoveries.get(key);
+  if (!discovery) {
+    discovery = search(executablePath);
+    discoveries.set(key, discovery);
+    discovery.then(
+      (result) => {
+        if (!result.path) discoveries.delete(key);
+      },
+      () => discoveries.delete(key)
+    );
+  }
+  return discovery;
+}
+
+/**
+ * Forget the CLIs found so far
+ */
+export function resetCLIDiscovery(): void {
+  discoveries.clear();
+}
+
+async function search(executablePath?: string): Promise<CLIDiscovery> {
+  const candidates: CLICandidate[] = [];
+  const found = (path: string, source: CLICandidate['source']) => {
+    candidates.push({ path, source, found: true });
+    return { path, candidates };
+  };
+  const missed = (path: string, source: CLICandidate['source']) => {
+    candidates.push({ path, source, found: false });
+  };
+
+  // First check if a custom executable path is provided
+  if (executablePath) {
+    try {
+      await access(executablePath, constants.X_OK);
+      return found(executablePath, 'executablePath');
+    } catch {
+      missed(executablePath, 'executablePath');
+      return { path: null, candidates };
+    }
+  }
+
+  // Then check for local Claude installation (newer version with --output-format support)
+  const localPaths = [
+    join(homedir(), '.claude', 'local', 'claude'),
+    join(homedir(), '.claude', 'bin', 'claude')
+  ];
+
+  for (const path of localPaths) {
+    try {
+      await access(path, constants.X_OK);
+      return found(path, 'local');
+    } catch {
+      missed(path, 'local');
+    }
+  }
+
+  // Then try to find in PATH - try both 'claude' and 'claude-code' for compatibility
+  for (const name of ['claude', 'claude-code']) {
+    try {
+      return found(await which(name), 'PATH');
+    } catch {
+      missed(name, 'PATH');
+    }
+  }
+
+  // Common installation paths to check
+  const paths: Array<{ path: string; source: CLICandidate['source'] }> = [];
+  const isWindows = platform() === 'win32';
+  const home = homedir();
+
+  const common = isWindows
+    ? [
+        join(home, 'AppData', 'Local', 'Programs', 'claude', 'claude.exe'),
+        join(
+          home,
+          'AppData',
+          'Local',
+          'Programs',
+          'claude-code',
+          'claude-code.exe'
+        ),
+        'C:\\Program Files\\claude\\claude.exe',
+        'C:\\Program Files\\claude-code\\claude-code.exe'
+      ]
+    : [
+        '/usr/local/bin/claude',
+        '/usr/local/bin/claude-code',
+        '/usr/bin/claude',
+        '/usr/bin/claude-code',
+        '/opt/homebrew/bin/claude',
+        '/opt/homebrew/bin/claude-code',
+        join(home, '.local', 'bin', 'claude'),
+        join(home, '.local', 'bin', 'claude-code'),
+        join(home, 'bin', 'claude'),
+        join(home, 'bin', 'claude-code'),
+        join(home, '.claude', 'local', 'claude') // Claude's custom installation path
+      ];
+  paths.push(...common.map((path) => ({ path, source: 'common' as const })));
+
+  // Try global npm/yarn paths
+  try {
+    const { stdout: npmPrefix } = await execa('npm', [
+      'config',
+      'get',
+      'prefix'
+    ]);
+    if (npmPrefix) {
+      paths.push(
+        { path: join(npmPrefix.trim(), 'bin', 'claude'), source: 'npm' },
+        { path: join(npmPrefix.trim(), 'bin', 'claude-code'), source: 'npm' }
+      );
+    }
+  } catch {
+    // Ignore error and continue
+  }
+
+  // Check each path
+  for (const { path, source } of paths) {
+    try {
+      const { stdout } = await execa(path, ['--version']);
+      return { ...found(path, source), version: stdout?.trim() };
+    } catch {
+      missed(path, source);
+    }
+  }
+
+  return { path: null, candidates };
+}
@@ -0,0 +1,210 @@
+import { CLIJSONDecodeError } from '../../errors.js';
+
+/**
+ * Default upper bound for a single CLI message, in characters
+ */
+export const DEFAULT_MAX_MESSAGE_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Options for JSONFramer
+ */
+export interface JSONFramerOptions {
+  // Largest message accepted before failing with CLIJSONDecodeError
+  maxMessageSize?: number;
+  // Called with non-JSON text found between messages
+  onSkip?: (text: string) => void;
+}
+
+/**
+ * Incremental framer that turns a stream of stdout chunks into parsed JSON
+ * values
+ *
+ * Complete newline-delimited lines are parsed directly (the fast path).
+ * Anything else - a message split across chunks, pretty-printed or
+ * concatenated JSON - goes through a brace-depth scanner whose depth, string
+ * and escape state survive between chunks, so every character is scanned
+ * exactly once no matter how many chunks a large message arrives in.
+ */
+export class JSONFramer {
+  private buffer = '';
+  // Next character of the buffer to scan
+  private position = 0;
+  // Start of the message being scanned, or -1 between messages
+  private messageStart = -1;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private readonly maxMessageSize: number;
+
+  constructor(private framerOptions: JSONFramerOptions = {}) {
+    this.maxMessageSize =
+      framerOptions.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE;
+  }
+
+  /**
+   * Number of buffered characters that have not been emitted yet
+   */
+  get bufferedLength(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Feed a chunk of stdout and return every value it completed
+   *
+   * @throws CLIJSONDecodeError if a message is not valid JSON or exceeds the
+   * maximum message size
+   */
+  push(chunk: string): unknown[] {
+    const values: unknown[] = [];
+    this.buffer += chunk;
+
+    while (this.position < this.buffer.length) {
+      if (this.messageStart === -1) {
+        if (!this.startMessage(values)) break;
+      } else if (!this.scanMessage(values)) {
+        break;
+      }
+    }
+
+    this.compact();
+    this.checkSize();
+
+    return values;
+  }
+
+  /**
+   * Between messages: parse complete lines directly or locate the start of
+   * the next message. Returns false when more input is needed.
+   */
+  private startMessage(values: unknown[]): boolean {
+    const newline = this.buffer.indexOf('\n', this.position);
+    const lineEnd = newline === -1 ? this.buffer.length : newline;
+    const line = this.buffer.substring(this.position, lineEnd).trim();
+
+    // Fast path: a complete line holding exactly one JSON value
+    if (newline !== -1 && isJSONLike(line)) {
+      try {
+        values.push(JSON.parse(line));
+        this.position = newline + 1;
+        return true;
+      } catch {
+        // Fall through to the scanner, which reports real decode errors
+      }
+    }
+
+    const openBrace = this.buffer.indexOf('{', this.position);
+    const openBracket = this.buffer.indexOf('[', this.position);
+    const start =
+      openBrace === -1
+        ? openBracket
+        : openBracket === -1
+          ? openBrace
+          : Math.min(openBrace, openBracket);
+
+    if (start === -1) {
+      // Keep a trailing partial line in case it turns into JSON
+      if (newline === -1) return false;
+      this.skip(this.buffer.substring(this.position, newline + 1));
+      this.position = newline + 1;
+      return true;
+    }
+
+    if (start > this.position) {
+      this.skip(this.buffer.substring(this.position, start));
+    }
+    this.messageStart = start;
+    this.position = start;
+    this.depth = 0;
+    this.inString = false;
+    this.escaped = false;
+    return true;
+  }
+
+  /**
+   * Inside a message: advance the scanner. Returns false when more input is
+   * needed.
+   */
+  private scanMessage(values: unknown[]): boolean {
+    const buffer = this.buffer;
+
+    for (let i = this.position; i < buffer.length; i++) {
+      const char = buffer[i];
+
+      if (this.escaped) {
+        this.escaped = false;
+        continue;
+      }
+      if (char === '\\') {
+        this.escaped = true;
+        continue;
+      }
+      if (char === '"') {
+        this.inString = !this.inString;
+        continue;
+      }
+      if (this.inString) continue;
+
+      if (char === '{' || char === '[') {
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+        if (this.depth === 0) {
+          const text = buffer.substring(this.messageStart, i + 1);
+          values.push(parseMessage(text));
+          this.messageStart = -1;
+          this.position = i + 1;
+          return true;
+        }
+      }
+    }
+
+    this.position = buffer.length;
+    return false;
+  }
+
+  // Drop everything before the current message (or scan position)
+  private compact(): void {
+    const keepFrom =
+      this.messageStart === -1 ? this.position : this.messageStart;
+    if (keepFrom === 0) return;
+
+    this.buffer = this.buffer.substring(keepFrom);
+    this.position -= keepFrom;
+    if (this.messageStart !== -1) {
+      this.messageStart = 0;
+    }
+  }
+
+  private checkSize(): void {
+    if (this.buffer.length <= this.maxMessageSize) return;
+
+    const preview = this.buffer.substring(0, 1000);
+    this.buffer = '';
+    this.position = 0;
+    this.messageStart = -1;
+    throw new CLIJSONDecodeError(
+      `CLI message exceeded the maximum size of ${this.maxMessageSize} characters`,
+      preview
+    );
+  }
+
+  private skip(text: string): void {
+    if (text.trim()) {
+      this.framerOptions.onSkip?.(text);
+    }
+  }
+}
+
+function isJSONLike(text: string): boolean {
+  const first = text[0];
+  const last = text[text.length - 1];
+  return (first === '{' && last === '}') || (first === '[' && last === ']');
+}
+
+function parseMessage(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new CLIJSONDecodeError(`Failed to parse CLI output: ${error}`, text);
+  }
+}
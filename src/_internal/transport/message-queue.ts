@@ -0,0 +1,145 @@
+/**
+ * Options for AsyncMessageQueue
+ */
+export interface MessageQueueOptions {
+  // Buffered item count at which the producer is asked to pause
+  highWaterMark?: number;
+  // Buffered item count at which a paused producer is asked to resume
+  lowWaterMark?: number;
+  // Called when the buffer reaches the high water mark
+  onPause?: () => void;
+  // Called when a paused buffer drains to the low water mark
+  onResume?: () => void;
+}
+
+/**
+ * Unbounded async queue connecting an event-driven producer (stdout data
+ * events) to a pull-based consumer (an async generator)
+ *
+ * Consumers waiting in next() are woken as soon as an item is pushed, and the
+ * producer is told to pause via onPause() when the consumer falls behind.
+ */
+export class AsyncMessageQueue<T> implements AsyncIterable<T> {
+  private items: T[] = [];
+  private head = 0;
+  private ended = false;
+  private error: Error | null = null;
+  private paused = false;
+  private waiter?: {
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: Error) => void;
+  };
+  private readonly highWaterMark: number;
+  private readonly lowWaterMark: number;
+
+  constructor(private queueOptions: MessageQueueOptions = {}) {
+    this.highWaterMark = queueOptions.highWaterMark ?? 1000;
+    this.lowWaterMark =
+      queueOptions.lowWaterMark ?? Math.floor(this.highWaterMark / 2);
+  }
+
+  /**
+   * Number of buffered items not yet consumed
+   */
+  get size(): number {
+    return this.items.length - this.head;
+  }
+
+  /**
+   * Whether the producer has been asked to pause
+   */
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Add an item, handing it straight to a waiting consumer if there is one
+   */
+  push(item: T): void {
+    if (this.ended || this.error) return;
+
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = undefined;
+      resolve({ value: item, done: false });
+      return;
+    }
+
+    this.items.push(item);
+
+    if (!this.paused && this.size >= this.highWaterMark) {
+      this.paused = true;
+      this.queueOptions.onPause?.();
+    }
+  }
+
+  /**
+   * Signal that no more items will be pushed
+   */
+  end(): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    if (this.waiter && this.size === 0) {
+      const { resolve } = this.waiter;
+      this.waiter = undefined;
+      resolve({ value: undefined, done: true });
+    }
+  }
+
+  /**
+   * Fail the queue; the error is thrown to the consumer after buffered items
+   * that arrived before it have been delivered
+   */
+  fail(error: Error): void {
+    if (this.error || this.ended) return;
+    this.error = error;
+
+    if (this.waiter && this.size === 0) {
+      const { reject } = this.waiter;
+      this.waiter = undefined;
+      reject(error);
+    }
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.size > 0) {
+      const item = this.items[this.head]!;
+      this.head++;
+      this.compact();
+      this.maybeResume();
+      return Promise.resolve({ value: item, done: false });
+    }
+
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+
+    if (this.ended) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return { next: () => this.next() };
+  }
+
+  private maybeResume(): void {
+    if (this.paused && this.size <= this.lowWaterMark) {
+      this.paused = false;
+      this.queueOptions.onResume?.();
+    }
+  }
+
+  // Drop consumed items once they make up most of the backing array
+  private compact(): void {
+    if (this.head > 1024 && this.head * 2 > this.items.length) {
+      this.items = this.items.slice(this.head);
+      this.head = 0;
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { execa } from 'execa';
+import { platform } from 'node:os';
+
+/**
+ * List a process and all of its descendants, parents before children
+ *
+ * Taken before signalling anything: once a parent dies its children are
+ * re-parented and can no longer be found from it.
+ */
+export async function listProcessTree(pid: number): Promise<number[]> {
+  const { stdout, exitCode } = await execa('ps', ['-A', '-o', 'pid=,ppid='], {
+    reject: false
+  });
+  if (exitCode !== 0) return [pid];
+
+  const children = new Map<number, number[]>();
+  for (const line of stdout.split('\n')) {
+    const [child, parent] = line.trim().split(/\s+/).map(Number);
+    if (!child || parent === undefined) continue;
+    children.set(parent, [...(children.get(parent) ?? []), child]);
+  }
+
+  const tree = [pid];
+  for (let i = 0; i < tree.length; i++) {
+    tree.push(...(children.get(tree[i]!) ?? []));
+  }
+  return tree;
+}
+
+/**
+ * Kill a process and everything it started (e.g. the shells and servers
+ * launched by tools): SIGTERM first, then SIGKILL for whatever is still
+ * running once the root has exited or the grace period is over
+ */
+export async function killProcessTree(
+  pid: number,
+  exited: Promise<unknown>,
+  graceMs: number = 1000
+): Promise<void> {
+  if (platform() === 'win32') {
+    await execa('taskkill', ['/pid', String(pid), '/T', '/F'], {
+      reject: false
+    });
+    return;
+  }
+
+  const tree = await listProcessTree(pid);
+  signalAll(tree, 'SIGTERM');
+
+  let timer: NodeJS.Timeout | undefined;
+  await Promise.race([
+    exited.catch(() => {}),
+    new Promise((resolve) => {
+      timer = setTimeout(resolve, graceMs);
+    })
+  ]);
+  clearTimeout(timer);
+
+  signalAll(tree.filter(isRunning), 'SIGKILL');
+}
+
+function signalAll(pids: number[], signal: NodeJS.Signals): void {
+  for (const pid of pids) {
+    try {
+      process.kill(pid, signal);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,45 +1,90 @@
 import { execa, type ExecaChildProcess } from 'execa';
-import which from 'which';
 import { createInterface } from 'node:readline';
-import { platform } from 'node:os';
-import { join } from 'node:path';
-import { homedir } from 'node:os';
-import { access, constants } from 'node:fs/promises';
+import { StringDecoder } from 'node:string_decoder';
 import {
   CLIConnectionError,
   CLINotFoundError,
-  ProcessError,
-  CLIJSONDecodeError
+  ProcessError
 } from '../../errors.js';
 import type {
   ClaudeCodeOptions,
   CLIOutput,
   ProcessCompleteHandler,
+  PromptInput,
+  RawCLIMessage,
+  TextBlock,
+  Transport,
+  TransportConfig,
   UserMessage
 } from '../../types.js';
+import { AsyncMessageQueue } from './message-queue.js';
+import { JSONFramer } from './json-framer.js';
+import { killProcessTree } from './process-tree.js';
+import { discoverCLI } from './cli-discovery.js';
+import { isSdkMcpServer } from '../../mcp.js';
+
+const STDERR_TAIL_LINES = 50;
+
+/**
+ * Default transport factory: spawn the Claude Code CLI for the given config
+ */
+export function createSubprocessTransport(
+  config: TransportConfig
+): SubprocessCLITransport {
+  return new SubprocessCLITransport(
+    config.prompt,
+    config.options,
+    config.streamingMode,
+    config.keepAlive,
+    config.processCompleteHandlers,
+    config.initialMessages
+  );
+}
+
+/**
+ * The stream-json user message that sends a prompt to the CLI
+ */
+export function promptMessage(prompt: PromptInput): RawCLIMessage {
+  return {
+    type: 'user',
+    message: {
+      role: 'user',
+      content:
+        typeof prompt === 'string' ? [{ type: 'text', text: prompt }] : prompt
+    }
+  };
+}
 
-export class SubprocessCLITransport {
+export class SubprocessCLITransport implements Transport {
   private process?: ExecaChildProcess;
   private options: ClaudeCodeOptions;
-  private prompt: string;
-  private connectTimeout?: NodeJS.Timeout;
+  private prompt: PromptInput;
 
   private streamingMode: boolean = false; // Track if we need streaming input capability
   private keepAlive: boolean = false; // Track if we should keep process alive across request-response cycles
   private processCompleteHandlers: Array<ProcessCompleteHandler>;
+  private initialMessages: RawCLIMessage[];
+  // Last lines the CLI wrote to stderr, attached to ProcessError
+  private stderrTail: string[] = [];
+  private readingStderr = false;
+  // Ends the running receiveMessages() early, see detachReader()
+  private detach?: () => void;
+  private rawOutputListeners: Array<(data: string) => void> = [];
 
   constructor(
-    prompt: string,
+    prompt: PromptInput,
     options: ClaudeCodeOptions = {},
     streamingMode: boolean = false,
     keepAlive: boolean = false,
-    processCompleteHandlers: Array<ProcessCompleteHandler> = []
+    processCompleteHandlers: Array<ProcessCompleteHandler> = [],
+    initialMessages: RawCLIMessage[] = []
   ) {
     this.prompt = prompt;
     this.options = options;
     this.streamingMode = streamingMode;
     this.keepAlive = keepAlive;
     this.processCompleteHandlers = processCompleteHandlers;
+    this.initialMessages = initialMessages;
   }
 
   private debugLog(...args: any[]): void {
@@ -83,6 +128,29 @@ export class SubprocessCLITransport {
     return isActive;
   }
 
+  /**
+   * Write a raw stream-json message (e.g. a control response) to stdin
+   */
+  writeMessage(message: RawCLIMessage): void {
+    if (!this.isActive() || !this.process?.stdin) {
+      throw new Error('No active process to write to');
+    }
+    if (!this.streamingMode) {
+      throw new Error('Raw messages can only be written in streaming mode');
+    }
+
+    const jsonlString = JSON.stringify(message) + '\n';
+    if (this.options.debug) {
+      this.debugLog('DEBUG stdin (raw):', jsonlString);
+    }
+
+    try {
+      this.process.stdin.write(jsonlString);
+    } catch (error) {
+      throw new Error(`Failed to write to stdin: ${error}`);
+    }
+  }
+
   /**
    * Write streaming input to the active process stdin
    */
@@ -138,106 +206,9 @@ export class SubprocessCLITransport {
   }
 
   private async findCLI(): Promise<string> {
-    // First check if a custom executable path is provided
-    if (this.options.executablePath) {
-      try {
-        await access(this.options.executablePath, constants.X_OK);
-        return this.options.executablePath;
-      } catch {
-        throw new CLINotFoundError();
-      }
-    }
-
-    // Then check for local Claude installation (newer version with --output-format support)
-    const localPaths = [
-      join(homedir(), '.claude', 'local', 'claude'),
-      join(homedir(), '.claude', 'bin', 'claude')
-    ];
-
-    for (const path of localPaths) {
-      try {
-        await access(path, constants.X_OK);
-        return path;
-      } catch {
-        // Continue checking
-      }
-    }
-
-    // Then try to find in PATH - try both 'claude' and 'claude-code' for compatibility
-    try {
-      return await which('claude');
-    } catch {
-      // Try the alternative name
-      try {
-        return await which('claude-code');
-      } catch {
-        // Not found in PATH, continue to check other locations
-      }
-    }
-
-    // Common installation paths to check
-    const paths: string[] = [];
-    const isWindows = platform() === 'win32';
-    const home = homedir();
-
-    if (isWindows) {
-      paths.push(
-        join(home, 'AppData', 'Local', 'Programs', 'claude', 'claude.exe'),
-        join(
-          home,
-          'AppData',
-          'Local',
-          'Programs',
-          'claude-code',
-          'claude-code.exe'
-        ),
-        'C:\\Program Files\\claude\\claude.exe',
-        'C:\\Program Files\\claude-code\\claude-code.exe'
-      );
-    } else {
-      paths.push(
-        '/usr/local/bin/claude',
-        '/usr/local/bin/claude-code',
-        '/usr/bin/claude',
-        '/usr/bin/claude-code',
-        '/opt/homebrew/bin/claude',
-        '/opt/homebrew/bin/claude-code',
-        join(home, '.local', 'bin', 'claude'),
-        join(home, '.local', 'bin', 'claude-code'),
-        join(home, 'bin', 'claude'),
-        join(home, 'bin', 'claude-code'),
-        join(home, '.claude', 'local', 'claude') // Claude's custom installation path
-      );
-    }
-
-    // Try global npm/yarn paths
-    try {
-      const { stdout: npmPrefix } = await execa('npm', [
-        'config',
-        'get',
-        'prefix'
-      ]);
-      if (npmPrefix) {
-        paths.push(
-          join(npmPrefix.trim(), 'bin', 'claude'),
-          join(npmPrefix.trim(), 'bin', 'claude-code')
-        );
-      }
-    } catch {
-      // Ignore error and continue
-    }
-
-    // Check each path
-    for (const path of paths) {
-      try {
-        await execa(path, ['--version']);
-        return path;
-      } catch {
-        // Ignore error and continue
-      }
-    }
-
-    throw new CLINotFoundError();
+    const { path } = await discoverCLI(this.options.executablePath);
+    if (!path) throw new CLINotFoundError();
+    return path;
   }
 
   private buildCommand(): string[] {
@@ -269,11 +240,22 @@ export class SubprocessCLITransport {
     // Handle session resumption
     if (this.options.sessionId) {
       args.push('--resume', this.options.sessionId);
+      if (this.options.forkSession) {
+        args.push('--fork-session');
+      }
+    } else if (this.options.continueSession) {
+      args.push('--continue');
     }
 
     // Handle allowed/disallowed tools (Claude CLI uses camelCase flags)
-    if (this.options.allowedTools && this.options.allowedTools.length > 0) {
-      args.push('--allowedTools', this.options.allowedTools.join(','));
+    // Tools of in-process MCP servers are implemented by the caller, so they
+    // are allowed without a permission prompt
+    const allowedTools = [
+      ...(this.options.allowedTools ?? []),
+      ...sdkMcpToolNames(this.options)
+    ];
+    if (allowedTools.length > 0) {
+      args.push('--allowedTools', allowedTools.join(','));
     }
     if (this.options.deniedTools && this.options.deniedTools.length > 0) {
       args.push('--disallowedTools', this.options.deniedTools.join(','));
@@ -282,17 +264,29 @@ export class SubprocessCLITransport {
     // Handle permission mode - map to CLI's actual flag
     if (this.options.permissionMode === 'bypassPermissions') {
       args.push('--dangerously-skip-permissions');
+    } else if (this.options.permissionMode) {
+      args.push('--permission-mode', this.options.permissionMode);
+    }
+
+    // Route permission prompts to the SDK over the control protocol
+    if (this.options.canUseTool) {
+      args.push('--permission-prompt-tool', 'stdio');
     }
-    // Note: 'default' and 'acceptEdits' are not supported by current CLI version
 
     // Handle MCP config
     if (
       this.options.mcpServers &&
       Object.keys(this.options.mcpServers).length > 0
     ) {
-      const mcpConfig = {
-        mcpServers: this.options.mcpServers
-      };
+      // In-process servers are only referenced by name; the CLI reaches
+      // them through the control protocol
+      const mcpServers = Object.fromEntries(
+        Object.entries(this.options.mcpServers).map(([key, server]) => [
+          key,
+          isSdkMcpServer(server) ? { type: 'sdk', name: key } : server
+        ])
+      );
+      const mcpConfig = { mcpServers };
       args.push('--mcp-config', JSON.stringify(mcpConfig));
     }
 
@@ -301,6 +295,11 @@ export class SubprocessCLITransport {
       args.push('--add-dir', this.options.addDirectories.join(' '));
     }
 
+    // Request token-level stream events
+    if (this.options.includePartialMessages) {
+      args.push('--include-partial-messages');
+    }
+
     // Add streaming input support for conversations
     if (this.streamingMode) {
       args.push('--input-format', 'stream-json');
@@ -313,6 +312,21 @@ export class SubprocessCLITransport {
   }
 
   async connect(): Promise<void> {
+    if (!this.process) await this.spawn();
+
+    try {
+      this.writeInitialInput();
+    } catch (error) {
+      await this.cleanup();
+      throw new CLIConnectionError(`Failed to start Claude Code CLI: ${error}`);
+    }
+  }
+
+  /**
+   * Start the CLI without sending it anything, e.g. to keep a process warm
+   * until a prompt arrives; connect() then only writes the input
+   */
+  async spawn(): Promise<void> {
     const cliPath = await this.findCLI();
     const args = this.buildCommand();
 
@@ -381,66 +395,69 @@ export class SubprocessCLITransport {
           this.debugLog('DEBUG stdout (raw):', chunk.toString());
         });
       }
+    } catch (error) {
+      await this.cleanup();
+      throw new CLIConnectionError(`Failed to start Claude Code CLI: ${error}`);
+    }
+  }
 
-      // Send prompt via stdin
-      if (this.process.stdin) {
-        if (this.streamingMode) {
-          // For streaming mode, send initial prompt as JSONL
-          const jsonlMessage = {
-            type: 'user',
-            message: {
-              role: 'user',
-              content: [{ type: 'text', text: this.prompt }]
-            }
-          };
+  /**
+   * Identifies processes that can stand in for each other: the executable,
+   * arguments, working directory and environment they are started with
+   */
+  processKey(): string {
+    return JSON.stringify({
+      executablePath: this.options.executablePath,
+      wrapperCommand: this.options.wrapperCommand,
+      cwd: this.options.cwd,
+      env: this.options.env,
+      args: this.buildCommand()
+    });
+  }
 
-          const initialJsonlString = JSON.stringify(jsonlMessage) + '\n';
+  // Send the prompt (after any control protocol setup) to stdin
+  private writeInitialInput(): void {
+    if (this.process?.stdin) {
+      if (this.streamingMode) {
+        // Control protocol setup must reach the CLI before the prompt
+        for (const message of this.initialMessages) {
+          this.writeMessage(message);
+        }
 
-          this.debugLog(
-            'DEBUG: [Transport] Sending initial JSONL message in streaming mode',
-            {
-              streamingMode: this.streamingMode,
-              keepAlive: this.keepAlive,
-              willKeepStdinOpen: this.keepAlive
-                ? 'indefinitely until end()'
-                : 'until result message received'
-            }
-          );
+        // For streaming mode, send initial prompt as JSONL
+        const jsonlMessage = promptMessage(this.prompt);
 
-          if (this.options.debug) {
-            this.debugLog('DEBUG stdin (raw):', initialJsonlString);
+        const initialJsonlString = JSON.stringify(jsonlMessage) + '\n';
+
+        this.debugLog(
+          'DEBUG: [Transport] Sending initial JSONL message in streaming mode',
+          {
+            streamingMode: this.streamingMode,
+            keepAlive: this.keepAlive,
+            willKeepStdinOpen: this.keepAlive
+              ? 'indefinitely until end()'
+              : 'until result message received'
           }
+        );
 
-          this.process.stdin.write(initialJsonlString);
-          // Keep stdin open for potential streaming input and for keepAlive behavior
-          // stdin will be closed when we receive a result message (if keepAlive=false) or explicitly via end()
-        } else {
-          // For simple queries, send as plain text and close stdin
-          const promptString = this.prompt + '\n';
+        if (this.options.debug) {
+          this.debugLog('DEBUG stdin (raw):', initialJsonlString);
+        }
 
-          if (this.options.debug) {
-            this.debugLog('DEBUG stdin (raw):', promptString);
-          }
+        this.process.stdin.write(initialJsonlString);
+        // Keep stdin open for potential streaming input and for keepAlive behavior
+        // stdin will be closed when we receive a result message (if keepAlive=false) or explicitly via end()
+      } else {
+        // For simple queries, send as plain text and close stdin
+        const promptString = promptText(this.prompt) + '\n';
 
-          this.process.stdin.write(promptString);
-          this.process.stdin.end();
+        if (this.options.debug) {
+          this.debugLog('DEBUG stdin (raw):', promptString);
         }
-      }
 
-      // Set up connection timeout
-      if (this.options.timeout) {
-        this.connectTimeout = setTimeout(() => {
-          if (this.process && !this.process.killed) {
-            this.process.cancel();
-            throw new CLIConnectionError(
-              `Connection timeout after ${this.options.timeout}ms`
-            );
-          }
-        }, this.options.timeout);
+        this.process.stdin.write(promptString);
+        this.process.stdin.end();
       }
-    } catch (error) {
-      await this.cleanup();
-      throw new CLIConnectionError(`Failed to start Claude Code CLI: ${error}`);
     }
   }
 
@@ -449,14 +466,15 @@ export class SubprocessCLITransport {
       throw new CLIConnectionError('Not connected to CLI');
     }
 
-    // Clear connection timeout once we start receiving messages
-    if (this.connectTimeout) {
-      clearTimeout(this.connectTimeout);
-      this.connectTimeout = undefined;
-    }
+    // Keep our own reference: terminate() clears this.process on exit while
+    // we may still be draining stdout
+    const childProcess = this.process;
+    const stdout = this.process.stdout;
 
-    // Handle stderr in background
-    if (this.process.stderr) {
+    // Handle stderr in background, once for a process that serves several
+    // queries
+    if (this.process.stderr && !this.readingStderr) {
+      this.readingStderr = true;
       const stderrRl = createInterface({
         input: this.process.stderr,
         crlfDelay: Infinity
@@ -464,6 +482,10 @@ export class SubprocessCLITransport {
 
       stderrRl.on('line', (line) => {
         this.debugLog('DEBUG stderr:', line);
+        this.stderrTail.push(line);
+        if (this.stderrTail.length > STDERR_TAIL_LINES) {
+          this.stderrTail.shift();
+        }
       });
 
       stderrRl.on('error', (error) => {
@@ -473,164 +495,108 @@ export class SubprocessCLITransport {
 
     try {
       // Handle large JSON responses that may exceed readline buffer limits
-      // by manually parsing JSON from raw data instead of relying on line-by-line reading
-      let buffer = '';
-      const messages: CLIOutput[] = [];
-      let processComplete = false;
-      let parseError: Error | null = null;
-
-      // Set up data handler for manual JSON parsing
-      const onData = (chunk: Buffer) => {
-        buffer += chunk.toString();
-
-        // Try to parse complete JSON objects from the buffer
-        let startIndex = 0;
-        while (startIndex < buffer.length) {
-          const openBrace = buffer.indexOf('{', startIndex);
-          const openBracket = buffer.indexOf('[', startIndex);
-
-          // Find the first JSON object/array start
-          let jsonStart = -1;
-          if (openBrace !== -1 && openBracket !== -1) {
-            jsonStart = Math.min(openBrace, openBracket);
-          } else if (openBrace !== -1) {
-            jsonStart = openBrace;
-          } else if (openBracket !== -1) {
-            jsonStart = openBracket;
-          }
-
-          if (jsonStart === -1) break;
-
-          // Try to parse JSON starting from this position
-          let depth = 0;
-          let inString = false;
-          let escaped = false;
-          let jsonEnd = -1;
-
-          for (let i = jsonStart; i < buffer.length; i++) {
-            const char = buffer[i];
-
-            if (escaped) {
-              escaped = false;
-              continue;
-            }
-
-            if (char === '\\') {
-              escaped = true;
-              continue;
-            }
+      // by framing JSON from raw data instead of relying on line-by-line reading
+      const decoder = new StringDecoder('utf8');
+      const framer = new JSONFramer({
+        maxMessageSize: this.options.maxMessageSize,
+        onSkip: (text) => {
+          this.debugLog(
+            'DEBUG: Skipping non-JSON data:',
+            text.substring(0, 100)
+          );
+        }
+      });
 
-            if (char === '"') {
-              inString = !inString;
-              continue;
-            }
+      // Parsed messages flow through an event-driven queue: the consumer is
+      // woken as soon as a message arrives, and stdout is paused while the
+      // consumer falls behind
+      const queue = new AsyncMessageQueue<CLIOutput>({
+        onPause: () => {
+          this.debugLog('DEBUG: [Transport] Consumer is slow, pausing stdout');
+          stdout.pause();
+        },
+        onResume: () => {
+          this.debugLog(
+            'DEBUG: [Transport] Consumer caught up, resuming stdout'
+          );
+          stdout.resume();
+        }
+      });
 
-            if (!inString) {
-              if (char === '{' || char === '[') {
-                depth++;
-              } else if (char === '}' || char === ']') {
-                depth--;
-                if (depth === 0) {
-                  jsonEnd = i + 1;
-                  break;
-                }
-              }
-            }
-          }
+      // Set up data handler for incremental JSON framing
+      const onData = (chunk: Buffer) => {
+        const text = decoder.write(chunk);
+        for (const listener of this.rawOutputListeners) listener(text);
 
-          if (jsonEnd !== -1) {
-            // Found complete JSON object
-            const jsonStr = buffer.substring(jsonStart, jsonEnd);
+        let parsedMessages: unknown[];
+        try {
+          parsedMessages = framer.push(text);
+        } catch (error) {
+          queue.fail(error as Error);
+          stdout.removeListener('data', onData);
+          return; // Stop processing more data
+        }
 
+        for (const parsed of parsedMessages as CLIOutput[]) {
+          if (this.options.debug) {
+            const jsonStr = JSON.stringify(parsed);
             this.debugLog(
               'DEBUG stdout:',
               jsonStr.substring(0, 200) + (jsonStr.length > 200 ? '...' : '')
             );
+          }
 
-            try {
-              const parsed = JSON.parse(jsonStr) as CLIOutput;
-
-              // For non-keepAlive mode, close stdin when we receive a result message
-              if (
-                !this.keepAlive &&
-                (parsed as any).type === 'result' &&
-                this.process?.stdin &&
-                !this.process.stdin.destroyed
-              ) {
-                this.debugLog(
-                  'DEBUG: [Transport] Received result message, closing stdin for non-keepAlive mode'
-                );
-                this.process.stdin.end();
-              }
-
-              messages.push(parsed);
-            } catch (error) {
-              // If JSON parsing fails but it looks like JSON, capture error
-              if (
-                jsonStr.trim().startsWith('{') ||
-                jsonStr.trim().startsWith('[')
-              ) {
-                parseError = new CLIJSONDecodeError(
-                  `Failed to parse CLI output: ${error}`,
-                  jsonStr
-                );
-                return; // Stop processing more data
-              }
-              this.debugLog(
-                'DEBUG: Skipping non-JSON data:',
-                jsonStr.substring(0, 100)
-              );
-            }
-
-            // Remove processed JSON from buffer
-            buffer = buffer.substring(jsonEnd);
-            startIndex = 0;
-          } else {
-            // No complete JSON found, wait for more data
-            break;
+          // For non-keepAlive mode, close stdin when we receive a result message
+          if (
+            !this.keepAlive &&
+            (parsed as any).type === 'result' &&
+            this.process?.stdin &&
+            !this.process.stdin.destroyed
+          ) {
+            this.debugLog(
+              'DEBUG: [Transport] Received result message, closing stdin for non-keepAlive mode'
+            );
+            this.process.stdin.end();
           }
+
+          queue.push(parsed);
         }
       };
 
       const onEnd = () => {
-        processComplete = true;
+        queue.end();
       };
 
-      this.process.stdout.on('data', onData);
-      this.process.stdout.on('end', onEnd);
+      let detached = false;
+      this.detach = () => {
+        detached = true;
+        queue.end();
+      };
 
-      // Yield messages as they become available
-      let messageIndex = 0;
-      while (!processComplete || messageIndex < messages.length) {
-        // Check for parse errors first
-        if (parseError) {
-          throw parseError;
-        }
+      stdout.on('data', onData);
+      stdout.on('end', onEnd);
+      // Paused by a previous reader of the same process
+      stdout.resume();
 
-        if (messageIndex < messages.length) {
-          const message = messages[messageIndex];
-          if (message) {
-            yield message;
-          }
-          messageIndex++;
-        } else {
-          // Wait a bit for more messages
-          await new Promise((resolve) => setTimeout(resolve, 10));
+      // Yield messages as they become available
+      try {
+        for await (const message of queue) {
+          yield message;
         }
+      } finally {
+        // Clean up event listeners, holding back output until the next reader
+        stdout.removeListener('data', onData);
+        stdout.removeListener('end', onEnd);
+        stdout.pause();
+        this.detach = undefined;
       }
 
-      // Clean up event listeners
-      this.process.stdout.removeListener('data', onData);
-      this.process.stdout.removeListener('end', onEnd);
-
-      // Final check for parse errors
-      if (parseError) {
-        throw parseError;
-      }
+      // The process lives on for another reader
+      if (detached) return;
 
       // After all messages are processed, wait for process to exit
       try {
-        await this.process;
+        await childProcess;
 
         // Call process complete handlers on successful exit
         for (const handler of this.processCompleteHandlers) {
@@ -659,7 +625,8 @@ export class SubprocessCLITransport {
           throw new ProcessError(
             `Claude Code CLI exited with code ${error.exitCode}`,
             error.exitCode,
-            error.signal
+            error.signal,
+            this.getStderr()
           );
         }
       }
@@ -670,17 +637,34 @@ export class SubprocessCLITransport {
     }
   }
 
+  /**
+   * Listen for stdout exactly as it is read, e.g. to record it
+   * Returns unsubscribe function
+   */
+  onRawOutput(listener: (data: string) => void): () => void {
+    this.rawOutputListeners.push(listener);
+    return () => {
+      const index = this.rawOutputListeners.indexOf(listener);
+      if (index > -1) {
+        this.rawOutputListeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * End the running receiveMessages() once it has yielded what it has read,
+   * without waiting for the process to exit. Output that arrives later is
+   * held back for the next reader.
+   */
+  detachReader(): void {
+    this.detach?.();
+  }
+
   async disconnect(): Promise<void> {
     await this.cleanup();
   }
 
   private async cleanup(): Promise<void> {
-    // Clear any timeouts
-    if (this.connectTimeout) {
-      clearTimeout(this.connectTimeout);
-      this.connectTimeout = undefined;
-    }
-
     // Clean up process
     if (this.process) {
       try {
@@ -702,6 +686,31 @@ export class SubprocessCLITransport {
     }
   }
 
+  /**
+   * Kill the CLI and every process it started, e.g. after a timeout
+   */
+  async kill(): Promise<void> {
+    const child = this.process;
+    if (!child?.pid) {
+      await this.cleanup();
+      return;
+    }
+
+    this.debugLog('DEBUG: Killing CLI process tree', { pid: child.pid });
+    try {
+      await killProcessTree(child.pid, child);
+    } finally {
+      if (this.process === child) this.process = undefined;
+    }
+  }
+
+  /**
+   * Last lines the CLI wrote to stderr
+   */
+  getStderr(): string {
+    return this.stderrTail.join('\n');
+  }
+
   /**
    * Close stdin to signal end of streaming input (for streaming mode)
    */
@@ -751,3 +760,21 @@ export class SubprocessCLITransport {
     });
   }
 }
+
+// Text-mode stdin can only carry the text parts of a prompt
+function promptText(prompt: PromptInput): string {
+  if (typeof prompt === 'string') return prompt;
+  return prompt
+    .filter((block): block is TextBlock => block.type === 'text')
+    .map((block) => block.text)
+    .join('\n');
+}
+
+// Names Claude uses for the tools of in-process MCP servers
+function sdkMcpToolNames(options: ClaudeCodeOptions): string[] {
+  return Object.entries(options.mcpServers ?? {}).flatMap(([key, server]) =>
+    isSdkMcpServer(server)
+      ? server.tools.map((tool) => `mcp__${key}__${tool.name}`)
+      : []
+  );
+}
@@ -1,29 +1,43 @@
 import { InternalClient } from './_internal/client.js';
-import { ResponseParser } from './parser.js';
+import { resolveUserContent } from './_internal/content.js';
+import { addHook, hookRegistration, removeHook } from './_internal/control.js';
+import { BudgetTracker } from './_internal/budget.js';
+import { ResponseParser, type QuerySource } from './parser.js';
+import { ClaudeSDKError } from './errors.js';
 import type {
+  Budget,
   ClaudeCodeOptions,
+  CLIControlRequest,
+  ConversationBranch,
   Message,
-  TextBlock,
+  PermissionMode,
+  UserContentBlock,
   UserMessage,
   ProcessCompleteHandler,
   ToolUseBlock,
-  ToolResultBlock
+  ToolResultBlock,
+  HookConfig,
+  HookEvent,
+  HookRegistration,
+  PreToolUseHook,
+  PostToolUseHook,
+  StopHook,
+  UserPromptSubmitHook
 } from './types.js';
 import type { Logger } from './logger.js';
 
 /**
- * Convert flexible input types to UserMessage content
+ * Convert flexible input types to UserMessage content, inlining any file
+ * path sources
  */
-function normalizeUserContent(
-  input: string | TextBlock | TextBlock[]
-): string | Array<TextBlock | unknown> {
+async function normalizeUserContent(
+  input: string | UserContentBlock | UserContentBlock[],
+  cwd?: string
+): Promise<string | UserContentBlock[]> {
   if (typeof input === 'string') {
     return input;
   }
-  if (Array.isArray(input)) {
-    return input;
-  }
-  return [input];
+  return resolveUserContent(Array.isArray(input) ? input : [input], cwd);
 }
 
 /**
@@ -35,11 +49,12 @@ class SessionAwareParser extends ResponseParser {
     handlers: Array<(message: Message) => void>,
     logger: Logger | undefined,
     private onSessionUpdate: (sessionId: string | null) => void,
-    private onMessage: (message: Message) => Promise<void>,
+    private emitToConversation: (message: Message) => Promise<void>,
     private client?: InternalClient,
-    processCompleteHandlers: Array<ProcessCompleteHandler> = []
+    processCompleteHandlers: Array<ProcessCompleteHandler> = [],
+    source?: QuerySource
   ) {
-    super(generator, handlers, logger, processCompleteHandlers);
+    super(generator, handlers, logger, processCompleteHandlers, source);
   }
 
   protected async consume(): Promise<void> {
@@ -59,7 +74,7 @@ class SessionAwareParser extends ResponseParser {
       }
 
       // Emit to conversation handlers
-      await this.onMessage(message);
+      await this.emitToConversation(message);
 
       // Run handlers
       for (const handler of this.handlers) {
@@ -89,7 +104,7 @@ class SessionAwareParser extends ResponseParser {
       }
 
       // Emit to conversation handlers
-      await this.onMessage(message);
+      await this.emitToConversation(message);
 
       // Run handlers
       for (const handler of this.handlers) {
@@ -110,6 +125,13 @@ class SessionAwareParser extends ResponseParser {
     this.consumed = true;
   }
 
+  /**
+   * Get the messages received so far without waiting for the stream to end
+   */
+  getReceivedMessages(): Message[] {
+    return [...this.messages];
+  }
+
   /**
    * Get the internal client for accessing transport
    */
@@ -153,52 +175,80 @@ export class Conversation {
     (message: Message, sessionId: string | null) => void | Promise<void>
   > = [];
   private sessionIdHandlers: Array<(sessionId: string | null) => void> = [];
+  private userMessageHandlers: Array<(message: UserMessage) => void> = [];
   private processCompleteHandlers: Array<ProcessCompleteHandler> = [];
   private logger?: Logger;
   private disposed = false;
   private _keepAlive: boolean;
+  // Messages received so far, used as the fork point of fork()
+  private messageCount = 0;
+  private branch: ConversationBranch | null = null;
+  private parent?: Conversation;
+  private forks: Conversation[] = [];
+  private budget?: BudgetTracker;
 
   constructor(
     options: ClaudeCodeOptions,
     logger?: Logger,
     keepAlive: boolean = false,
-    processCompleteHandlers: Array<ProcessCompleteHandler> = []
+    processCompleteHandlers: Array<ProcessCompleteHandler> = [],
+    budget?: BudgetTracker
   ) {
     this.options = { ...options };
     this.currentSessionId = options.sessionId || null; // Get from QueryBuilder options
     this.logger = logger;
     this._keepAlive = keepAlive;
     this.processCompleteHandlers = processCompleteHandlers;
+    this.budget = budget;
   }
 
   /**
    * Execute query and return response parser (familiar API)
    * Always creates new process for queries - returns familiar ResponseParser
+   *
+   * @param signal - Aborting it kills the process and rejects with AbortError
    */
-  query(prompt: string): ResponseParser {
+  query(prompt: string, signal?: AbortSignal): ResponseParser {
     if (this.disposed) {
       throw new Error('Conversation has been disposed');
     }
+    this.budget?.check();
 
     this.logger?.info('Starting conversation query', {
       prompt,
       sessionId: this.currentSessionId
     });
+    this.emitUserMessage({
+      type: 'user',
+      content: prompt,
+      session_id: this.currentSessionId || undefined
+    });
 
-    // Create internal client to process the query with streaming mode enabled
-    const client = new InternalClient(
-      prompt,
-      {
-        ...this.options,
-        sessionId: this.currentSessionId || undefined,
-        keepAlive: this._keepAlive // Pass keepAlive flag to client
-      },
-      true, // Enable streaming mode for conversations
-      this.processCompleteHandlers
-    );
+    const options: ClaudeCodeOptions = {
+      ...this.options,
+      sessionId: this.currentSessionId || undefined,
+      signal: signal ?? this.options.signal
+    };
+    const client = this.startClient(prompt, options);
 
-    // Store as active client so send() can write to stdin of the same process
-    this.activeClient = client;
+    // Lets asStructured() restart the query with its instructions and
+    // re-prompt in the conversation's session
+    const source: QuerySource = {
+      prompt,
+      options,
+      run: (runPrompt, runOptions) => {
+        this.budget?.check();
+        // A restart keeps the prompt, which was already emitted above
+        if (runPrompt !== prompt) {
+          this.emitUserMessage({
+            type: 'user',
+            content: runPrompt,
+            session_id: runOptions.sessionId
+          });
+        }
+        return this.startClient(runPrompt, runOptions).processQuery();
+      }
+    };
 
     // Create session-aware parser that updates session ID when it receives responses
     const parser = new SessionAwareParser(
@@ -210,7 +260,8 @@ export class Conversation {
       },
       (message) => this.emitMessage(message),
       client,
-      this.processCompleteHandlers
+      this.processCompleteHandlers,
+      source
     );
 
     // Store as active parser so end() can access already-processed messages
@@ -219,21 +270,47 @@ export class Conversation {
     return parser;
   }
 
+  /**
+   * Create the client that runs a query of this conversation and make it the
+   * active one, so send() can write to stdin of the same process
+   */
+  private startClient(
+    prompt: string,
+    options: ClaudeCodeOptions
+  ): InternalClient {
+    const client = new InternalClient(
+      prompt,
+      {
+        ...options,
+        keepAlive: this._keepAlive // Pass keepAlive flag to client
+      },
+      true, // Enable streaming mode for conversations
+      this.processCompleteHandlers
+    );
+    this.activeClient = client;
+    return client;
+  }
+
   /**
    * Send streaming input (fire-and-forget with error handling)
    * Resolves when message is delivered to stdin, not when response received
    */
-  async send(input: string | TextBlock | TextBlock[]): Promise<void> {
+  async send(
+    input: string | UserContentBlock | UserContentBlock[]
+  ): Promise<void> {
     if (this.disposed) {
       throw new Error('Conversation has been disposed');
     }
+    this.budget?.check();
 
     // Create UserMessage from flexible input
+    const content = await normalizeUserContent(input, this.options.cwd);
     const userMessage: UserMessage = {
       type: 'user',
-      content: normalizeUserContent(input),
+      content,
       session_id: this.currentSessionId || undefined
     };
+    this.emitUserMessage(userMessage);
 
     const hasActiveClient = !!this.activeClient;
     const hasActiveTransport = this.activeClient?.hasActiveTransport() ?? false;
@@ -241,7 +318,7 @@ export class Conversation {
     const messagePreview =
       typeof input === 'string'
         ? input.substring(0, 50) + (input.length > 50 ? '...' : '')
-        : '[TextBlock content]';
+        : '[content blocks]';
 
     this.logger?.debug('Sending streaming input', {
       message: messagePreview,
@@ -269,22 +346,8 @@ export class Conversation {
           willSpawnNewProcess: true
         });
 
-        // For new client, we need to extract string content for the prompt
-        const promptText =
-          typeof input === 'string'
-            ? input
-            : Array.isArray(input)
-              ? input
-                  .map((block) =>
-                    block.type === 'text' ? block.text : '[non-text]'
-                  )
-                  .join(' ')
-              : input.type === 'text'
-                ? input.text
-                : '[non-text]';
-
         const client = new InternalClient(
-          promptText,
+          content,
           {
             ...this.options,
             sessionId: this.currentSessionId || undefined,
@@ -314,6 +377,81 @@ export class Conversation {
     }
   }
 
+  /**
+   * Stop the turn Claude is working on without ending the process
+   *
+   * The turn ends with a result message whose `interrupted` flag is set, and
+   * with keepAlive the process stays ready for the next send(). Resolves once
+   * the CLI has acknowledged the interrupt; does nothing when no process is
+   * running.
+   */
+  async interrupt(): Promise<void> {
+    if (this.disposed) {
+      throw new Error('Conversation has been disposed');
+    }
+
+    if (!this.activeClient?.hasActiveTransport()) {
+      this.logger?.debug('No active process to interrupt');
+      return;
+    }
+
+    this.logger?.debug('Interrupting current turn', {
+      sessionId: this.currentSessionId
+    });
+    await this.activeClient.interrupt();
+  }
+
+  /**
+   * Switch the model for the rest of the conversation
+   *
+   * A running process switches with a set_model control request. If the CLI
+   * doesn't support it or doesn't answer in time (see the `control` limit of
+   * withTimeout()), the process is ended (see end()) and the next query() or
+   * send() resumes the session with the new model.
+   */
+  async setModel(model: string): Promise<void> {
+    if (this.disposed) {
+      throw new Error('Conversation has been disposed');
+    }
+
+    this.options.model = model;
+    await this.applyToProcess({ subtype: 'set_model', model });
+  }
+
+  /**
+   * Switch the permission mode for the rest of the conversation, falling
+   * back to a resumed process like setModel()
+   */
+  async setPermissionMode(mode: PermissionMode): Promise<void> {
+    if (this.disposed) {
+      throw new Error('Conversation has been disposed');
+    }
+
+    this.options.permissionMode = mode;
+    await this.applyToProcess({ subtype: 'set_permission_mode', mode });
+  }
+
+  private async applyToProcess(
+    request: CLIControlRequest['request']
+  ): Promise<void> {
+    if (!this.activeClient?.hasActiveTransport()) return;
+
+    try {
+      await this.activeClient.sendControlRequest(request);
+      this.logger?.debug('Updated running process', request);
+    } catch (error) {
+      // Rejected or unanswered (ControlRequestTimeoutError) alike
+      if (!(error instanceof ClaudeSDKError)) throw error;
+
+      // Options are read when a process starts, so restart on the session
+      this.logger?.debug('Control request failed, restarting process', {
+        subtype: request.subtype,
+        error
+      });
+      await this.end();
+    }
+  }
+
   /**
    * Observe all conversation activity (stateless event registration)
    * Returns unsubscribe function
@@ -346,6 +484,67 @@ export class Conversation {
     return this.currentSessionId; // Simple - just the latest
   }
 
+  /**
+   * Branch off the current session into a new conversation
+   *
+   * The fork resumes from a copy of this conversation's session (the CLI's
+   * --fork-session), so both can continue independently and in parallel:
+   * explore alternatives in forks, then keep the one you like and dispose
+   * the rest. The fork gets its own session ID with its first message.
+   */
+  fork(): Conversation {
+    if (this.disposed) {
+      throw new Error('Conversation has been disposed');
+    }
+    if (!this.currentSessionId) {
+      throw new ClaudeSDKError(
+        'Cannot fork a conversation before it has a session'
+      );
+    }
+
+    const fork = new Conversation(
+      {
+        ...this.options,
+        sessionId: this.currentSessionId,
+        forkSession: true
+      },
+      this.logger,
+      this._keepAlive,
+      [...this.processCompleteHandlers],
+      this.budget
+    );
+    fork.branch = {
+      parentSessionId: this.currentSessionId,
+      forkPoint: this.messageCount
+    };
+    fork.parent = this;
+    this.forks.push(fork);
+
+    this.logger?.debug('Forked conversation', fork.branch);
+    return fork;
+  }
+
+  /**
+   * Where this conversation was forked from; null unless made by fork()
+   */
+  getBranch(): ConversationBranch | null {
+    return this.branch ? { ...this.branch } : null;
+  }
+
+  /**
+   * The conversation this one was forked from
+   */
+  getParent(): Conversation | undefined {
+    return this.parent;
+  }
+
+  /**
+   * Conversations forked from this one, oldest first
+   */
+  getForks(): Conversation[] {
+    return [...this.forks];
+  }
+
   /**
    * Listen for session ID changes
    * Returns unsubscribe function
@@ -366,6 +565,33 @@ export class Conversation {
     };
   }
 
+  /**
+   * Listen for prompts sent with query() and send(), which the CLI does not
+   * echo back as messages
+   * Returns unsubscribe function
+   */
+  onUserMessage(handler: (message: UserMessage) => void): () => void {
+    if (this.disposed) {
+      throw new Error('Conversation has been disposed');
+    }
+
+    this.userMessageHandlers.push(handler);
+
+    return () => {
+      const index = this.userMessageHandlers.indexOf(handler);
+      if (index > -1) {
+        this.userMessageHandlers.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Get the options the next process will start with
+   */
+  getOptions(): ClaudeCodeOptions {
+    return { ...this.options };
+  }
+
   /**
    * Listen for process completion events
    * Returns unsubscribe function
@@ -409,6 +635,72 @@ export class Conversation {
     };
   }
 
+  /**
+   * Register a hook that runs before Claude uses a tool (see
+   * QueryBuilder.onPreToolUse). Hooks are sent to the CLI when a process
+   * starts, so they apply from the next query() or send() that spawns one.
+   * Returns unsubscribe function
+   */
+  onPreToolUse(matcher: string, hook: PreToolUseHook): () => void;
+  onPreToolUse(hook: PreToolUseHook): () => void;
+  onPreToolUse(
+    matcherOrHook: string | PreToolUseHook,
+    hook?: PreToolUseHook
+  ): () => void {
+    return this.registerHook(
+      'PreToolUse',
+      hookRegistration(matcherOrHook, hook)
+    );
+  }
+
+  /**
+   * Register a hook that runs after a tool succeeded (see
+   * QueryBuilder.onPostToolUse). Returns unsubscribe function
+   */
+  onPostToolUse(matcher: string, hook: PostToolUseHook): () => void;
+  onPostToolUse(hook: PostToolUseHook): () => void;
+  onPostToolUse(
+    matcherOrHook: string | PostToolUseHook,
+    hook?: PostToolUseHook
+  ): () => void {
+    return this.registerHook(
+      'PostToolUse',
+      hookRegistration(matcherOrHook, hook)
+    );
+  }
+
+  /**
+   * Register a hook that runs when Claude is about to finish its response.
+   * Returns unsubscribe function
+   */
+  onStop(hook: StopHook): () => void {
+    return this.registerHook('Stop', { hook });
+  }
+
+  /**
+   * Register a hook that runs when a prompt is submitted.
+   * Returns unsubscribe function
+   */
+  onUserPromptSubmit(hook: UserPromptSubmitHook): () => void {
+    return this.registerHook('UserPromptSubmit', { hook });
+  }
+
+  private registerHook<E extends HookEvent>(
+    event: E,
+    registration: HookRegistration<NonNullable<HookConfig[E]>[number]['hook']>
+  ): () => void {
+    if (this.disposed) {
+      throw new Error('Conversation has been disposed');
+    }
+
+    this.options.hooks = addHook(this.options.hooks, event, registration);
+
+    // Return unsubscribe function
+    return () => {
+      this.options.hooks = removeHook(this.options.hooks, event, registration);
+    };
+  }
+
   /**
    * Check if the conversation has been disposed
    */
@@ -434,6 +726,24 @@ export class Conversation {
     return this;
   }
 
+  /**
+   * Limit the cost and tokens of the conversation, its forks included
+   *
+   * Usage is summed over every turn and process. A warning is logged at each
+   * warnAt threshold; when the budget runs out mid-turn the process is ended
+   * and the query rejects with BudgetExceededError, as does every later
+   * query() and send().
+   * @returns this conversation instance for chaining
+   */
+  withBudget(budget: Budget): Conversation {
+    if (this.disposed) {
+      throw new Error('Conversation has been disposed');
+    }
+
+    this.budget = new BudgetTracker(budget, this.logger);
+    return this;
+  }
+
   /**
    * Dispose of conversation resources and clean up
    */
@@ -460,6 +770,7 @@ export class Conversation {
     // Clear handlers
     this.streamHandlers.length = 0;
     this.sessionIdHandlers.length = 0;
+    this.userMessageHandlers.length = 0;
     this.processCompleteHandlers.length = 0;
 
     this.disposed = true;
@@ -474,6 +785,11 @@ export class Conversation {
 
       this.currentSessionId = newSessionId;
 
+      // The fork has its own session now; later processes resume it as is
+      if (this.options.forkSession && newSessionId !== this.options.sessionId) {
+        this.options.forkSession = false;
+      }
+
       // Notify session ID listeners
       for (const handler of this.sessionIdHandlers) {
         try {
@@ -485,7 +801,19 @@ export class Conversation {
     }
   }
 
+  private emitUserMessage(message: UserMessage) {
+    for (const handler of this.userMessageHandlers) {
+      try {
+        handler(message);
+      } catch (error) {
+        this.logger?.error('User message handler error', { error });
+      }
+    }
+  }
+
   private async emitMessage(message: Message) {
+    this.messageCount++;
+
     // Auto-update session ID from any message
     if (message.session_id) {
       this.updateSessionId(message.session_id);
@@ -500,6 +828,14 @@ export class Conversation {
         // Continue with other handlers - don't break conversation flow
       }
     }
+
+    const exceeded = this.budget?.record(message, this);
+    if (exceeded) {
+      // Rejects the active query once the process is gone
+      await this.activeClient?.dispose();
+      this.activeClient = undefined;
+      throw exceeded;
+    }
   }
 
   /**
@@ -588,8 +924,9 @@ export class Conversation {
       const checkExistingMessages = async () => {
         if (this.activeParser) {
           try {
-            // Get the already-processed messages from the active parser
-            const messages = await this.activeParser.asArray();
+            // Only look at messages received so far - in keepAlive mode the
+            // stream does not end until the process is terminated
+            const messages = this.activeParser.getReceivedMessages();
             const { pending, hasAnyToolUse } =
               checkForPendingToolUses(messages);
 
@@ -0,0 +1,156 @@
+import { execa } from 'execa';
+import {
+  discoverCLI,
+  type CLICandidate
+} from './_internal/transport/cli-discovery.js';
+import type { ClaudeCodeOptions } from './types.js';
+
+export type { CLICandidate } from './_internal/transport/cli-discovery.js';
+
+export interface DiagnosticsReport {
+  // When the report was made (ISO 8601)
+  generatedAt: string;
+  cli: {
+    // The CLI queries run, or null when none was found
+    path: string | null;
+    // Every place the CLI was looked for, in order
+    candidates: CLICandidate[];
+    // Output of `claude --version`
+    version: string | null;
+    // Whether `claude --help` lists stream-json as an input format, which
+    // conversations and the control protocol need; null when unknown
+    supportsStreamJsonInput: boolean | null;
+    // Why the CLI could not be found or run
+    error?: string;
+  };
+  node: {
+    version: string;
+    platform: NodeJS.Platform;
+    arch: string;
+  };
+  // Variables the CLI is started with that change its behavior; secrets
+  // are replaced by "[redacted]"
+  env: Record<string, string>;
+}
+
+const ENV_VARS = [
+  'CLAUDE_CODE_ENTRYPOINT',
+  'CLAUDE_CONFIG_DIR',
+  'CLAUDE_CODE_USE_BEDROCK',
+  'CLAUDE_CODE_USE_VERTEX',
+  'ANTHROPIC_MODEL',
+  'ANTHROPIC_BASE_URL',
+  'ANTHROPIC_API_KEY',
+  'ANTHROPIC_AUTH_TOKEN',
+  'CLAUDE_CODE_OAUTH_TOKEN',
+  'HTTP_PROXY',
+  'HTTPS_PROXY',
+  'NO_PROXY'
+];
+const SECRET_ENV_VARS = new Set([
+  'ANTHROPIC_API_KEY',
+  'ANTHROPIC_AUTH_TOKEN',
+  'CLAUDE_CODE_OAUTH_TOKEN'
+]);
+
+// Long enough for a CLI that is slow to start, short enough for a report
+const COMMAND_TIMEOUT_MS = 10_000;
+
+/**
+ * Report how the SDK finds and runs the Claude Code CLI, for bug reports
+ * and support tickets
+ *
+ * Uses the same search as queries (remembered for the life of the process)
+ * and runs the CLI with `--version` and `--help`. Never throws: problems
+ * end up in `cli.error`.
+ *
+ * @param options - Options whose executablePath, wrapperCommand and env
+ * queries would use
+ *
+ * @example
+ * ```typescript
+ * console.log(JSON.stringify(await diagnose(), null, 2));
+ * ```
+ */
+export async function diagnose(
+  options: ClaudeCodeOptions = {}
+): Promise<DiagnosticsReport> {
+  // What the CLI is started with, see SubprocessCLITransport
+  const env: Record<string, string | undefined> = {
+    ...process.env,
+    ...options.env,
+    CLAUDE_CODE_ENTRYPOINT: 'sdk-ts'
+  };
+
+  const report: DiagnosticsReport = {
+    generatedAt: new Date().toISOString(),
+    cli: {
+      path: null,
+      candidates: [],
+      version: null,
+      supportsStreamJsonInput: null
+    },
+    node: {
+      version: process.version,
+      platform: process.platform,
+      arch: process.arch
+    },
+    env: {}
+  };
+
+  for (const name of ENV_VARS) {
+    const value = env[name];
+    if (value === undefined) continue;
+    report.env[name] = SECRET_ENV_VARS.has(name) ? '[redacted]' : value;
+  }
+
+  let discovery;
+  try {
+    discovery = await discoverCLI(options.executablePath);
+  } catch (error) {
+    report.cli.error = `CLI search failed: ${errorMessage(error)}`;
+    return report;
+  }
+  report.cli.path = discovery.path;
+  report.cli.candidates = discovery.candidates;
+  if (!discovery.path) {
+    report.cli.error = 'Claude Code CLI not found';
+    return report;
+  }
+
+  const run = (arg: string) => {
+    const wrapper = options.wrapperCommand ?? [];
+    const [file, ...args] =
+      wrapper.length > 0
+        ? [...wrapper, discovery.path!, arg]
+        : [discovery.path!, arg];
+    return execa(file!, args, {
+      env,
+      input: '',
+      timeout: COMMAND_TIMEOUT_MS
+    });
+  };
+
+  try {
+    report.cli.version =
+      discovery.version ?? (await run('--version')).stdout.trim();
+    const { stdout } = await run('--help');
+    report.cli.supportsStreamJsonInput = listsStreamJsonInput(stdout);
+  } catch (error) {
+    report.cli.error = `Failed to run the CLI: ${errorMessage(error)}`;
+  }
+  return report;
+}
+
+function listsStreamJsonInput(help: string): boolean {
+  const start = help.indexOf('--input-format');
+  if (start === -1) return false;
+  // The description may wrap over several lines, up to the next option
+  const option = help.slice(start);
+  const end = option.search(/\n\s*-/);
+  return (end === -1 ? option : option.slice(0, end)).includes('stream-json');
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -1,3 +1,11 @@
+import type {
+  Budget,
+  BudgetUsage,
+  PermissionDenial,
+  ResultMessage,
+  TimeoutKind
+} from './types.js';
+
 // Base error class for all Claude SDK errors
 export class ClaudeSDKError extends Error {
   constructor(message: string) {
@@ -27,19 +35,140 @@ export class CLINotFoundError extends ClaudeSDKError {
   }
 }
 
+// What was known about a failed query when it failed
+export interface ProcessErrorDetails {
+  exitCode?: number | null;
+  signal?: NodeJS.Signals | null;
+  // Last lines the CLI wrote to stderr
+  stderr?: string;
+  sessionId?: string;
+  // Last result message the CLI sent, if any
+  lastResult?: ResultMessage;
+}
+
 // Error when CLI process fails
 export class ProcessError extends ClaudeSDKError {
+  public readonly sessionId?: string;
+  public readonly lastResult?: ResultMessage;
+
   constructor(
     message: string,
     public readonly exitCode?: number | null,
-    public readonly signal?: NodeJS.Signals | null
+    public readonly signal?: NodeJS.Signals | null,
+    // Last lines the CLI wrote to stderr
+    public readonly stderr?: string,
+    context: Pick<ProcessErrorDetails, 'sessionId' | 'lastResult'> = {}
   ) {
     super(message);
     this.name = 'ProcessError';
+    this.sessionId = context.sessionId;
+    this.lastResult = context.lastResult;
     Object.setPrototypeOf(this, ProcessError.prototype);
   }
 }
 
+// Error when the API rejected the credentials (invalid key, not logged in)
+export class AuthenticationError extends ProcessError {
+  constructor(message: string, details: ProcessErrorDetails = {}) {
+    super(message, details.exitCode, details.signal, details.stderr, details);
+    this.name = 'AuthenticationError';
+    Object.setPrototypeOf(this, AuthenticationError.prototype);
+  }
+}
+
+// Error when the API rate limit or usage limit was hit
+export class RateLimitError extends ProcessError {
+  constructor(message: string, details: ProcessErrorDetails = {}) {
+    super(message, details.exitCode, details.signal, details.stderr, details);
+    this.name = 'RateLimitError';
+    Object.setPrototypeOf(this, RateLimitError.prototype);
+  }
+}
+
+// Error when the query stopped at the maxTurns limit
+export class MaxTurnsExceededError extends ProcessError {
+  constructor(message: string, details: ProcessErrorDetails = {}) {
+    super(message, details.exitCode, details.signal, details.stderr, details);
+    this.name = 'MaxTurnsExceededError';
+    Object.setPrototypeOf(this, MaxTurnsExceededError.prototype);
+  }
+}
+
+// Error when the query failed because tool calls were denied
+export class ToolPermissionDeniedError extends ProcessError {
+  public readonly denials: PermissionDenial[];
+
+  constructor(message: string, details: ProcessErrorDetails = {}) {
+    super(message, details.exitCode, details.signal, details.stderr, details);
+    this.name = 'ToolPermissionDeniedError';
+    this.denials = details.lastResult?.permission_denials ?? [];
+    Object.setPrototypeOf(this, ToolPermissionDeniedError.prototype);
+  }
+}
+
+// Error when the conversation no longer fits in the model's context window
+export class ContextWindowExceededError extends ProcessError {
+  constructor(message: string, details: ProcessErrorDetails = {}) {
+    super(message, details.exitCode, details.signal, details.stderr, details);
+    this.name = 'ContextWindowExceededError';
+    Object.setPrototypeOf(this, ContextWindowExceededError.prototype);
+  }
+}
+
+// Error when the query took longer than allowed
+export class TimeoutError extends ProcessError {
+  constructor(
+    message: string,
+    public readonly timeoutMs?: number,
+    // Which limit was hit
+    public readonly kind: TimeoutKind = 'total',
+    details: ProcessErrorDetails = {}
+  ) {
+    super(message, details.exitCode, details.signal, details.stderr, details);
+    this.name = 'TimeoutError';
+    Object.setPrototypeOf(this, TimeoutError.prototype);
+  }
+}
+
+// Error when the CLI did not answer a control request in time
+export class ControlRequestTimeoutError extends ClaudeSDKError {
+  constructor(
+    message: string,
+    // Subtype of the unanswered request, e.g. "interrupt"
+    public readonly subtype: string,
+    public readonly timeoutMs: number
+  ) {
+    super(message);
+    this.name = 'ControlRequestTimeoutError';
+    Object.setPrototypeOf(this, ControlRequestTimeoutError.prototype);
+  }
+}
+
+// Error when the caller aborted the query through its AbortSignal
+export class AbortError extends ClaudeSDKError {
+  constructor(
+    message: string = 'Query was aborted',
+    public readonly reason?: unknown
+  ) {
+    super(message);
+    this.name = 'AbortError';
+    Object.setPrototypeOf(this, AbortError.prototype);
+  }
+}
+
+// Error when the usage of a QueryBuilder or Conversation went over its budget
+export class BudgetExceededError extends ClaudeSDKError {
+  constructor(
+    message: string,
+    public readonly usage: BudgetUsage,
+    public readonly budget: Budget
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+    Object.setPrototypeOf(this, BudgetExceededError.prototype);
+  }
+}
+
 // Error when JSON parsing fails
 export class CLIJSONDecodeError extends ClaudeSDKError {
   constructor(
@@ -51,3 +180,17 @@ export class CLIJSONDecodeError extends ClaudeSDKError {
     Object.setPrototypeOf(this, CLIJSONDecodeError.prototype);
   }
 }
+
+// Error when a response never matched the schema given to asStructured()
+export class StructuredOutputError extends ClaudeSDKError {
+  constructor(
+    message: string,
+    public readonly rawText: string,
+    public readonly failures: string[],
+    public readonly attempts: number
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    Object.setPrototypeOf(this, StructuredOutputError.prototype);
+  }
+}
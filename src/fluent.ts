@@ -1,16 +1,48 @@
 import { query as baseQuery } from './index.js';
 import type {
+  Budget,
+  CanUseTool,
   ClaudeCodeOptions,
   Message,
   ToolName,
   PermissionMode,
   MCPServer,
   ProcessCompleteHandler,
-  DebugCallback
+  DebugCallback,
+  QueryTimeouts,
+  TransportFactory,
+  RetryHandler,
+  RetryPolicy,
+  SdkMcpServer,
+  SdkMcpTool,
+  SessionStore,
+  PreToolUseHook,
+  PostToolUseHook,
+  StopHook,
+  UserPromptSubmitHook
 } from './types.js';
 import { ResponseParser } from './parser.js';
 import { Logger } from './logger.js';
 import { Conversation } from './conversation.js';
+import { createSubprocessTransport } from './_internal/transport/subprocess-cli.js';
+import { addHook, hookRegistration } from './_internal/control.js';
+import { retryingQuery } from './_internal/retry.js';
+import { BudgetTracker, budgetedQuery } from './_internal/budget.js';
+import {
+  createSdkMcpServer,
+  isSdkMcpServer,
+  DEFAULT_SDK_MCP_SERVER
+} from './mcp.js';
+import { ClaudeSDKError } from './errors.js';
+import type { ClaudePool, PoolJobOptions } from './pool.js';
+import type { WarmProcessPool } from './warm-pool.js';
+import { loadConversation } from './session-store.js';
+import { recordConversation } from './_internal/session-recorder.js';
+import {
+  RecordingTransport,
+  ReplayTransport,
+  type ReplayOptions
+} from './_internal/transport/cassette.js';
 
 /**
  * Fluent API for building Claude Code queries with chainable methods
@@ -39,6 +71,14 @@ export class QueryBuilder {
   protected messageHandlers: Array<(message: Message) => void> = [];
   protected processCompleteHandlers: Array<ProcessCompleteHandler> = [];
   protected logger?: Logger;
+  protected retryPolicy?: RetryPolicy;
+  protected retryHandlers: RetryHandler[] = [];
+  protected sessionStore?: SessionStore;
+  protected budget?: Budget;
+  // Created on first use so it logs to the final logger
+  private budgetTracker?: BudgetTracker;
+  protected pool?: ClaudePool;
+  protected poolJob: PoolJobOptions = {};
 
   /**
    * Set the model to use
@@ -88,6 +128,25 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Decide programmatically whether Claude may run a tool. The callback is
+   * consulted for every tool request that needs permission and can allow it
+   * (optionally with rewritten input) or deny it with a message.
+   *
+   * @example
+   * ```typescript
+   * claude().canUseTool((tool, input) =>
+   *   tool === 'Bash' && !ALLOWED.includes(String(input.command))
+   *     ? { behavior: 'deny', message: 'Command not allowlisted' }
+   *     : { behavior: 'allow' }
+   * );
+   * ```
+   */
+  canUseTool(callback: CanUseTool): this {
+    this.options.canUseTool = callback;
+    return this;
+  }
+
   /**
    * Set working directory
    */
@@ -105,10 +164,113 @@ export class QueryBuilder {
   }
 
   /**
-   * Set timeout in milliseconds
+   * Set timeouts in milliseconds. A number limits how long to wait for the
+   * CLI's first message; pass an object to also limit idle time (no message
+   * while a turn is running) and the total duration of a query. Each one
+   * kills the CLI and rejects with TimeoutError. `control` limits how long
+   * interrupt(), setModel() and setPermissionMode() wait for the CLI to
+   * answer; they reject with ControlRequestTimeoutError.
+   */
+  withTimeout(ms: number): this;
+  withTimeout(timeouts: QueryTimeouts): this;
+  withTimeout(timeouts: number | QueryTimeouts): this {
+    if (typeof timeouts === 'number') {
+      this.options.timeout = timeouts;
+      return this;
+    }
+    if (timeouts.connect !== undefined) {
+      this.options.connectTimeout = timeouts.connect;
+    }
+    if (timeouts.idle !== undefined) this.options.idleTimeout = timeouts.idle;
+    if (timeouts.total !== undefined) {
+      this.options.totalTimeout = timeouts.total;
+    }
+    if (timeouts.control !== undefined) {
+      this.options.controlRequestTimeout = timeouts.control;
+    }
+    return this;
+  }
+
+  /**
+   * Persist conversations started with asConversation(keepAlive, key) so
+   * they can be picked up again with resumeConversation(key)
+   */
+  withSessionStore(store: SessionStore): this {
+    this.sessionStore = store;
+    return this;
+  }
+
+  /**
+   * Limit the cost and tokens of all queries and conversations started from
+   * this builder
+   *
+   * Usage is summed from the CLI's messages across queries, turns and
+   * sessions. A warning is logged at each warnAt threshold (80% by
+   * default). When the budget runs out mid-turn the CLI is stopped and the
+   * query rejects with BudgetExceededError carrying the usage; once it is
+   * used up, new queries are refused with the same error.
+   *
+   * @example
+   * ```typescript
+   * const builder = claude().withBudget({ maxCostUsd: 2, maxTokens: 500_000 });
+   * for (const file of files) {
+   *   await builder.query(`Review ${file}`).asText();
+   * }
+   * ```
+   */
+  withBudget(budget: Budget): this {
+    this.budget = budget;
+    this.budgetTracker = undefined;
+    return this;
+  }
+
+  /**
+   * Run queries in a ClaudePool, which starts them when it has a free slot
+   *
+   * @param job - Priority and progress event name of the queries
+   */
+  withPool(pool: ClaudePool, job: PoolJobOptions = {}): this {
+    this.pool = pool;
+    this.poolJob = job;
+    return this;
+  }
+
+  /**
+   * Retry queries that fail for transient reasons
+   *
+   * Failures are classified from the CLI's stderr and error results (rate
+   * limit, overloaded, network, auth, JSON decode). By default rate limits,
+   * overload and network errors are retried up to 3 attempts with
+   * exponential backoff, resuming the failed attempt's session.
+   *
+   * @example
+   * ```typescript
+   * claude()
+   *   .withRetry({ attempts: 5, backoff: { initialMs: 2000 } })
+   *   .onRetry(({ kind, retry }) => console.warn(`Retry ${retry}: ${kind}`))
+   *   .query('Refactor the parser');
+   * ```
+   */
+  withRetry(policy: RetryPolicy = {}): this {
+    this.retryPolicy = policy;
+    return this;
+  }
+
+  /**
+   * Set the largest single CLI message (in characters) accepted before the
+   * query fails with CLIJSONDecodeError
    */
-  withTimeout(ms: number): this {
-    this.options.timeout = ms;
+  withMaxMessageSize(size: number): this {
+    this.options.maxMessageSize = size;
+    return this;
+  }
+
+  /**
+   * Receive partial assistant output as stream_event messages (token deltas)
+   * in addition to the complete assistant messages
+   */
+  withPartialMessages(enabled = true): this {
+    this.options.includePartialMessages = enabled;
     return this;
   }
 
@@ -128,6 +290,62 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Use a custom transport instead of spawning the Claude Code CLI
+   *
+   * The factory is called once per query, so conversations that spawn several
+   * processes get a fresh transport each time.
+   *
+   * @example
+   * ```typescript
+   * const text = await claude()
+   *   .withTransport((config) => new MyInMemoryTransport(config))
+   *   .query('Hello')
+   *   .asText();
+   * ```
+   */
+  withTransport(factory: TransportFactory): this {
+    this.options.transport = factory;
+    return this;
+  }
+
+  /**
+   * Run streaming input queries on CLI processes kept warm by a
+   * WarmProcessPool instead of starting a new one each time
+   */
+  withProcessPool(pool: WarmProcessPool): this {
+    this.options.transport = pool.transport;
+    return this;
+  }
+
+  /**
+   * Replay a recorded cassette instead of running the CLI
+   *
+   * @param cassettePath - JSONL file written by withRecording() or captured
+   * from `claude -p --output-format stream-json`
+   * @param options - Replay options, e.g. `{ timing: true }` to keep recorded delays
+   */
+  withReplay(cassettePath: string, options: ReplayOptions = {}): this {
+    this.options.transport = (config) =>
+      new ReplayTransport(config, cassettePath, options);
+    return this;
+  }
+
+  /**
+   * Record the CLI output of the query to a cassette for later replay
+   *
+   * The raw stdout of the CLI is recorded as it arrives, so a replay goes
+   * through the same parsing, including partial and non-JSON lines. Wraps
+   * the currently configured transport, so call it after withTransport() if
+   * you use one. The cassette is overwritten each time a process starts.
+   */
+  withRecording(cassettePath: string): this {
+    const inner = this.options.transport ?? createSubprocessTransport;
+    this.options.transport = (config) =>
+      new RecordingTransport(inner(config), cassettePath);
+    return this;
+  }
+
   /**
    * Set session ID for continuing an existing conversation
    */
@@ -136,6 +354,15 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Continue the most recent session in the working directory without
+   * knowing its ID (the CLI's --continue). withSessionId() takes precedence.
+   */
+  continueLast(): this {
+    this.options.continueSession = true;
+    return this;
+  }
+
   /**
    * Set maximum number of turns/iterations
    */
@@ -172,14 +399,56 @@ export class QueryBuilder {
   /**
    * Add MCP servers
    */
-  withMCP(servers: Record<string, MCPServer>): this {
+  withMCP(servers: Record<string, MCPServer | SdkMcpServer>): this {
     if (!this.options.mcpServers) {
       this.options.mcpServers = {};
     }
+
     this.options.mcpServers = { ...this.options.mcpServers, ...servers };
     return this;
   }
 
+  /**
+   * Expose a TypeScript function to Claude as a tool
+   *
+   * The tool is served by an in-process MCP server (see createSdkMcpServer)
+   * named `server`, so Claude sees it as `mcp__sdk__<name>` by default.
+   *
+   * @example
+   * ```typescript
+   * claude().withTool({
+   *   name: 'get_order',
+   *   description: 'Look up an order by ID',
+   *   inputSchema: {
+   *     type: 'object',
+   *     properties: { id: { type: 'string' } },
+   *     required: ['id']
+   *   },
+   *   handler: async ({ id }) => JSON.stringify(await orders.get(id))
+   * });
+   * ```
+   */
+  withTool<Input = Record<string, unknown>>(
+    tool: SdkMcpTool<Input>,
+    server: string = DEFAULT_SDK_MCP_SERVER
+  ): this {
+    const existing = this.options.mcpServers?.[server];
+    if (existing && !isSdkMcpServer(existing)) {
+      throw new ClaudeSDKError(
+        `MCP server "${server}" is not an in-process SDK server`
+      );
+    }
+
+    this.options.mcpServers = {
+      ...this.options.mcpServers,
+      [server]: createSdkMcpServer([...(existing?.tools ?? []), tool], {
+        name: server,
+        version: existing?.version
+      })
+    };
+    return this;
+  }
+
   /**
    * Add directory(-ies) to include in the context
    */
@@ -265,44 +534,231 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Add handler called before a failed query is retried (see withRetry)
+   */
+  onRetry(handler: RetryHandler): this {
+    this.retryHandlers.push(handler);
+    return this;
+  }
+
+  /**
+   * Run a hook before Claude uses a tool. Unlike onToolUse() the hook runs
+   * before the tool and can deny the call, skip the permission prompt or
+   * rewrite the input.
+   *
+   * @param matcher Tool names the hook applies to, as a regex such as
+   * 'Edit|Write' (all tools when omitted)
+   *
+   * @example
+   * ```typescript
+   * claude().onPreToolUse('Edit|Write', ({ tool_input }) =>
+   *   String(tool_input.file_path).includes('migrations/')
+   *     ? { decision: 'deny', reason: 'Migrations are read-only' }
+   *     : undefined
+   * );
+   * ```
+   */
+  onPreToolUse(matcher: string, hook: PreToolUseHook): this;
+  onPreToolUse(hook: PreToolUseHook): this;
+  onPreToolUse(
+    matcherOrHook: string | PreToolUseHook,
+    hook?: PreToolUseHook
+  ): this {
+    this.options.hooks = addHook(
+      this.options.hooks,
+      'PreToolUse',
+      hookRegistration(matcherOrHook, hook)
+    );
+    return this;
+  }
+
+  /**
+   * Run a hook after a tool succeeded. The hook can add context for Claude or
+   * block the result with feedback.
+   *
+   * @param matcher Tool names the hook applies to, as a regex (all tools when
+   * omitted)
+   */
+  onPostToolUse(matcher: string, hook: PostToolUseHook): this;
+  onPostToolUse(hook: PostToolUseHook): this;
+  onPostToolUse(
+    matcherOrHook: string | PostToolUseHook,
+    hook?: PostToolUseHook
+  ): this {
+    this.options.hooks = addHook(
+      this.options.hooks,
+      'PostToolUse',
+      hookRegistration(matcherOrHook, hook)
+    );
+    return this;
+  }
+
+  /**
+   * Run a hook when Claude is about to finish its response. Returning
+   * `{ decision: 'block', reason }` makes Claude keep working.
+   */
+  onStop(hook: StopHook): this {
+    this.options.hooks = addHook(this.options.hooks, 'Stop', { hook });
+    return this;
+  }
+
+  /**
+   * Run a hook when a prompt is submitted, before Claude sees it. The hook
+   * can add context or block the prompt.
+   */
+  onUserPromptSubmit(hook: UserPromptSubmitHook): this {
+    this.options.hooks = addHook(this.options.hooks, 'UserPromptSubmit', {
+      hook
+    });
+    return this;
+  }
+
   /**
    * Execute query and return response parser
+   *
+   * @param signal - Aborting it kills the CLI and rejects with AbortError
    */
-  query(prompt: string): ResponseParser {
+  query(prompt: string, signal?: AbortSignal): ResponseParser {
+    const options = signal ? { ...this.options, signal } : this.options;
     const parser = new ResponseParser(
-      baseQuery(prompt, this.options, this.processCompleteHandlers),
+      this.run(prompt, options),
       this.messageHandlers,
       this.logger,
-      this.processCompleteHandlers
+      this.processCompleteHandlers,
+      {
+        prompt,
+        options: { ...options },
+        run: (followUp, options) => this.run(followUp, options)
+      }
     );
     return parser;
   }
 
+  /**
+   * Start a query, in a slot of the pool when there is one
+   */
+  private run(
+    prompt: string,
+    options: ClaudeCodeOptions
+  ): AsyncGenerator<Message> {
+    if (!this.pool) return this.start(prompt, options);
+    return this.pool.schedule(
+      (signal) => this.start(prompt, { ...options, signal }),
+      this.poolJob,
+      options.signal
+    );
+  }
+
+  /**
+   * Start a query, applying the budget and the retry policy when there are
+   * ones
+   */
+  private start(
+    prompt: string,
+    options: ClaudeCodeOptions
+  ): AsyncGenerator<Message> {
+    const budget = this.getBudgetTracker();
+    const runOnce = (
+      attemptPrompt: string,
+      attemptOptions: ClaudeCodeOptions
+    ) => {
+      const messages = baseQuery(
+        attemptPrompt,
+        attemptOptions,
+        this.processCompleteHandlers
+      );
+      return budget ? budgetedQuery(messages, budget) : messages;
+    };
+
+    if (!this.retryPolicy) return runOnce(prompt, options);
+    return retryingQuery(
+      runOnce,
+      prompt,
+      options,
+      this.retryPolicy,
+      this.retryHandlers,
+      this.logger
+    );
+  }
+
   /**
    * Create a conversation for streaming input capability
    * @param keepAlive - If true, keeps the process alive across multiple exchanges until conversation.end() is called
+   * @param key - Record the conversation under this key in the session store
    * @returns Conversation instance for multi-turn dialogue
    */
-  asConversation(keepAlive: boolean = false): Conversation {
-    return new Conversation(
+  asConversation(keepAlive: boolean = false, key?: string): Conversation {
+    const conversation = new Conversation(
       this.options,
       this.logger,
       keepAlive,
-      this.processCompleteHandlers
+      this.processCompleteHandlers,
+      this.getBudgetTracker()
+    );
+    if (key !== undefined) {
+      if (!this.sessionStore) {
+        throw new ClaudeSDKError(
+          'A conversation key needs a session store; call withSessionStore() first'
+        );
+      }
+      recordConversation(conversation, this.sessionStore, key, this.logger);
+    }
+    return conversation;
+  }
+
+  /**
+   * Pick up a stored conversation, e.g. after a restart, and keep recording
+   * it under the same key
+   *
+   * The stored options are the base and anything set on this builder wins,
+   * so callbacks such as canUseTool and hooks (which are never stored) can
+   * be set again here. A key with nothing stored starts a new conversation.
+   */
+  async resumeConversation(
+    key: string,
+    keepAlive: boolean = false
+  ): Promise<Conversation> {
+    if (!this.sessionStore) {
+      throw new ClaudeSDKError(
+        'resumeConversation() needs a session store; call withSessionStore() first'
+      );
+    }
+
+    const stored = await loadConversation(this.sessionStore, key);
+    const conversation = new Conversation(
+      {
+        ...stored?.options,
+        ...this.options,
+        sessionId: stored?.sessionId ?? this.options.sessionId
+      },
+      this.logger,
+      keepAlive,
+      this.processCompleteHandlers,
+      this.getBudgetTracker()
     );
+    recordConversation(conversation, this.sessionStore, key, this.logger);
+    return conversation;
+  }
+
+  private getBudgetTracker(): BudgetTracker | undefined {
+    if (this.budget) {
+      this.budgetTracker ??= new BudgetTracker(this.budget, this.logger);
+    }
+    return this.budgetTracker;
   }
 
   /**
    * Execute query and return raw async generator (for backward compatibility)
    */
-  async *queryRaw(prompt: string): AsyncGenerator<Message> {
+  async *queryRaw(
+    prompt: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<Message> {
     this.logger?.info('Starting query', { prompt, options: this.options });
 
-    for await (const message of baseQuery(
-      prompt,
-      this.options,
-      this.processCompleteHandlers
-    )) {
+    const options = signal ? { ...this.options, signal } : this.options;
+    for await (const message of this.run(prompt, options)) {
       this.logger?.debug('Received message', { type: message.type });
 
       // Run handlers
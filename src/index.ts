@@ -64,9 +64,59 @@ export { claude, QueryBuilder } from './fluent.js';
 export {
   ResponseParser,
   type ToolExecution,
-  type UsageStats
+  type UsageStats,
+  type QuerySource
 } from './parser.js';
 export { Conversation } from './conversation.js';
+export {
+  createSdkMcpServer,
+  isSdkMcpServer,
+  DEFAULT_SDK_MCP_SERVER
+} from './mcp.js';
+export {
+  MemorySessionStore,
+  FileSessionStore,
+  loadConversation
+} from './session-store.js';
+export {
+  ClaudePool,
+  type PoolOptions,
+  type PoolJobOptions,
+  type PoolSubmitOptions,
+  type PoolProgress,
+  type PoolEvent
+} from './pool.js';
+export {
+  diagnose,
+  type DiagnosticsReport,
+  type CLICandidate
+} from './diagnostics.js';
+export {
+  WarmProcessPool,
+  type WarmProcessPoolOptions,
+  type WarmProcessPoolStats
+} from './warm-pool.js';
+export {
+  UsageTracker,
+  type UsageRecord,
+  type UsageSummary,
+  type UsageGroupBy,
+  type UsageFilter,
+  type TrackOptions
+} from './usage-tracker.js';
+export {
+  listSessions,
+  projectSessionsDir,
+  type ListSessionsOptions
+} from './session-history.js';
+export { SubprocessCLITransport } from './_internal/transport/subprocess-cli.js';
+export {
+  RecordingTransport,
+  ReplayTransport,
+  parseCassette,
+  type CassetteEntry,
+  type ReplayOptions
+} from './_internal/transport/cassette.js';
 export {
   Logger,
   LogLevel,
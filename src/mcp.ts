@@ -0,0 +1,52 @@
+import type { MCPServer, SdkMcpServer, SdkMcpTool } from './types.js';
+
+/**
+ * Name of the server that QueryBuilder.withTool() adds tools to
+ */
+export const DEFAULT_SDK_MCP_SERVER = 'sdk';
+
+/**
+ * Create an MCP server whose tools are plain functions in this process
+ *
+ * Register it with `withMCP()`; Claude sees each tool as
+ * `mcp__<server key>__<tool name>` and calls are routed back to the handlers
+ * over the CLI's control channel, so no separate server binary is needed.
+ *
+ * @example
+ * ```typescript
+ * const internal = createSdkMcpServer([
+ *   {
+ *     name: 'lookup_user',
+ *     description: 'Find a user by email',
+ *     inputSchema: {
+ *       type: 'object',
+ *       properties: { email: { type: 'string' } },
+ *       required: ['email']
+ *     },
+ *     handler: async ({ email }) => JSON.stringify(await users.find(email))
+ *   }
+ * ], { name: 'internal' });
+ *
+ * await claude().withMCP({ internal }).query('Who is ada@example.com?');
+ * ```
+ */
+export function createSdkMcpServer(
+  tools: SdkMcpTool<unknown>[],
+  options: { name?: string; version?: string } = {}
+): SdkMcpServer {
+  return {
+    type: 'sdk',
+    name: options.name ?? DEFAULT_SDK_MCP_SERVER,
+    version: options.version ?? '1.0.0',
+    tools
+  };
+}
+
+/**
+ * Check whether an MCP server config is an in-process SDK server
+ */
+export function isSdkMcpServer(
+  server: MCPServer | SdkMcpServer
+): server is SdkMcpServer {
+  return server.type === 'sdk' && Array.isArray((server as SdkMcpServer).tools);
+}
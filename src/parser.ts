@@ -1,10 +1,22 @@
 import type {
+  ClaudeCodeOptions,
   Message,
+  TextBlock,
   ToolUseBlock,
   ResultMessage,
-  ProcessCompleteHandler
+  ProcessCompleteHandler,
+  StructuredOutputOptions,
+  StructuredSchema
 } from './types.js';
 import type { Logger } from './logger.js';
+import { AsyncMessageQueue } from './_internal/transport/message-queue.js';
+import {
+  isStructuredValidator,
+  parseStructured,
+  retryPrompt,
+  structuredInstructions
+} from './_internal/structured.js';
+import { StructuredOutputError } from './errors.js';
 
 /**
  * Response parser for extracting and transforming Claude messages
@@ -29,9 +41,20 @@ export class ResponseParser {
     protected generator: AsyncGenerator<Message>,
     protected handlers: Array<(message: Message) => void> = [],
     protected logger?: Logger,
-    protected processCompleteHandlers: Array<ProcessCompleteHandler> = []
+    protected processCompleteHandlers: Array<ProcessCompleteHandler> = [],
+    protected source?: QuerySource
   ) {}
 
+  /**
+   * Add a handler for the messages of this query that have not been read
+   * yet, e.g. to observe a parser handed out by other code
+   */
+  onMessage(handler: (message: Message) => void): this {
+    // The handler list may be shared with the QueryBuilder
+    this.handlers = [...this.handlers, handler];
+    return this;
+  }
+
   /**
    * Get all messages as an array (consumes the generator)
    */
@@ -45,19 +68,28 @@ export class ResponseParser {
    */
   async asText(): Promise<string> {
     await this.consume();
+    return assistantText(this.messages);
+  }
 
-    const texts: string[] = [];
+  /**
+   * Get the extended thinking content from assistant messages (redacted
+   * thinking is skipped)
+   */
+  async asThinking(): Promise<string> {
+    await this.consume();
+
+    const thoughts: string[] = [];
     for (const msg of this.messages) {
       if (msg.type === 'assistant') {
         for (const block of msg.content) {
-          if (block.type === 'text') {
-            texts.push(block.text);
+          if (block.type === 'thinking') {
+            thoughts.push(block.thinking);
           }
         }
       }
     }
 
-    return texts.join('\n');
+    return thoughts.join('\n');
   }
 
   /**
@@ -160,6 +192,78 @@ export class ResponseParser {
     return null;
   }
 
+  /**
+   * Parse the response as JSON and validate it against a schema
+   *
+   * When the query has not started yet, the schema is appended to the system
+   * prompt. A response that fails validation is answered in the same session
+   * with the validation errors, up to `maxRetries` times, before a
+   * StructuredOutputError is thrown. Accepts JSON Schema or a validator with
+   * a Zod-style `safeParse()`.
+   *
+   * @example
+   * ```typescript
+   * const { title, tags } = await claude()
+   *   .query('Summarise README.md')
+   *   .asStructured<{ title: string; tags: string[] }>({
+   *     type: 'object',
+   *     properties: {
+   *       title: { type: 'string' },
+   *       tags: { type: 'array', items: { type: 'string' } }
+   *     },
+   *     required: ['title', 'tags']
+   *   });
+   * ```
+   */
+  async asStructured<T = unknown>(
+    schema: StructuredSchema<T>,
+    options: StructuredOutputOptions = {}
+  ): Promise<T> {
+    const maxRetries = options.maxRetries ?? 2;
+    const instructions = structuredInstructions(
+      isStructuredValidator(schema) ? options.jsonSchema : schema
+    );
+    const { source } = this;
+
+    if (source && !this.consumed && !this.messages.length) {
+      // Nothing has run yet, so restart the query with the instructions
+      await this.generator.return(undefined);
+      this.generator = source.run(
+        source.prompt,
+        withInstructions(source.options, instructions)
+      );
+    }
+
+    let start = this.messages.length;
+    for (let attempt = 1; ; attempt++) {
+      await this.consume();
+      const text = assistantText(this.messages.slice(start));
+      const outcome = parseStructured(schema, text);
+      if (outcome.success) return outcome.data;
+
+      const sessionId = await this.getSessionId();
+      if (attempt > maxRetries || !source || !sessionId) {
+        throw new StructuredOutputError(
+          `Response did not match the schema after ${attempt} attempt(s): ${outcome.failures[0]}`,
+          text,
+          outcome.failures,
+          attempt
+        );
+      }
+
+      this.logger?.debug('Structured output failed validation, retrying', {
+        attempt,
+        failures: outcome.failures
+      });
+      start = this.messages.length;
+      this.generator = source.run(retryPrompt(outcome.failures), {
+        ...withInstructions(source.options, instructions),
+        sessionId
+      });
+      this.consumed = false;
+    }
+  }
+
   /**
    * Get usage statistics
    */
@@ -179,7 +283,7 @@ export class ResponseParser {
       totalTokens:
         (resultMsg.usage.input_tokens ?? 0) +
         (resultMsg.usage.output_tokens ?? 0),
-      totalCost: resultMsg.cost?.total_cost ?? 0
+      totalCost: resultMsg.cost?.total_cost ?? resultMsg.total_cost_usd ?? 0
     };
   }
 
@@ -230,6 +334,37 @@ export class ResponseParser {
     this.consumed = true;
   }
 
+  /**
+   * Stream assistant text as it is generated
+   *
+   * Yields text deltas when partial messages are enabled (see
+   * `withPartialMessages()`), otherwise the text of each complete assistant
+   * message. Messages are stored, so other methods work after the stream ends.
+   */
+  async *textStream(): AsyncGenerator<string> {
+    const extract = textExtractor();
+
+    if (this.consumed) {
+      for (const message of this.messages) {
+        yield* extract(message);
+      }
+      return;
+    }
+
+    const queue = new AsyncMessageQueue<string>({ highWaterMark: Infinity });
+    const done = this.stream((message) => {
+      for (const text of extract(message)) {
+        queue.push(text);
+      }
+    }).then(
+      () => queue.end(),
+      (error) => queue.fail(error)
+    );
+
+    yield* queue;
+    await done;
+  }
+
   /**
    * Wait for completion and return success status
    */
@@ -312,6 +447,76 @@ export class ResponseParser {
   }
 }
 
+/**
+ * Pull incremental text out of messages. Text deltas win over the complete
+ * assistant message that repeats them; without deltas the complete message's
+ * text is used.
+ */
+function textExtractor(): (message: Message) => string[] {
+  let streamed = false;
+
+  return (message) => {
+    if (message.type === 'stream_event') {
+      const event = message.event;
+      if (event.type === 'message_start') {
+        streamed = false;
+      } else if (
+        event.type === 'content_block_delta' &&
+        event.delta.type === 'text_delta'
+      ) {
+        streamed = true;
+        return [event.delta.text];
+      }
+      return [];
+    }
+
+    if (message.type === 'assistant' && !streamed) {
+      return message.content
+        .filter((block): block is TextBlock => block.type === 'text')
+        .map((block) => block.text);
+    }
+
+    return [];
+  };
+}
+
+// Text of the assistant messages, one block per line
+function assistantText(messages: Message[]): string {
+  const texts: string[] = [];
+  for (const msg of messages) {
+    if (msg.type === 'assistant') {
+      for (const block of msg.content) {
+        if (block.type === 'text') {
+          texts.push(block.text);
+        }
+      }
+    }
+  }
+  return texts.join('\n');
+}
+
+function withInstructions(
+  options: ClaudeCodeOptions,
+  instructions: string
+): ClaudeCodeOptions {
+  return {
+    ...options,
+    appendSystemPrompt: [options.appendSystemPrompt, instructions]
+      .filter(Boolean)
+      .join('\n\n')
+  };
+}
+
+/**
+ * How a parser's query was started, so it can be re-run with extra options
+ * or followed up in the same session (see asStructured)
+ */
+export interface QuerySource {
+  prompt: string;
+  options: ClaudeCodeOptions;
+  run(prompt: string, options: ClaudeCodeOptions): AsyncGenerator<Message>;
+}
+
 /**
  * Represents a tool execution with its input and result
  */
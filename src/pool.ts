@@ -0,0 +1,265 @@
+import { claude, type QueryBuilder } from './fluent.js';
+import type { ResponseParser } from './parser.js';
+import { AbortError, ClaudeSDKError } from './errors.js';
+import type { Message } from './types.js';
+
+export interface PoolOptions {
+  // Most queries running at once (default 4)
+  concurrency?: number;
+  // Base configuration of every job (default claude())
+  builder?: () => QueryBuilder;
+}
+
+export interface PoolJobOptions {
+  // Name used in progress events (default "job-<n>")
+  id?: string;
+  // Jobs with a higher priority start first (default 0)
+  priority?: number;
+}
+
+export interface PoolSubmitOptions extends PoolJobOptions {
+  // Configure this job's builder on top of the pool's base configuration
+  configure?: (builder: QueryBuilder) => QueryBuilder | void;
+  // Aborting it removes the job from the queue or kills its CLI
+  signal?: AbortSignal;
+}
+
+export interface PoolProgress {
+  queued: number;
+  running: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+}
+
+export interface PoolEvent {
+  type: 'queued' | 'started' | 'completed' | 'failed' | 'cancelled';
+  jobId: string;
+  priority: number;
+  // Why the job failed or was cancelled
+  error?: Error;
+  progress: PoolProgress;
+}
+
+interface Waiter {
+  priority: number;
+  order: number;
+  start: () => void;
+  cancel: (error: Error) => void;
+}
+
+/**
+ * Runs many queries with a limited number of CLI processes at once
+ *
+ * Jobs queue until a slot is free, highest priority first and in submission
+ * order otherwise. A job is queued when its parser is first read, so a
+ * parser that is never read costs nothing. shutdown() cancels queued jobs,
+ * kills the process tree of running ones and waits until they have exited.
+ *
+ * @example
+ * ```typescript
+ * const pool = new ClaudePool({
+ *   concurrency: 8,
+ *   builder: () => claude().withModel('haiku').allowTools('Read')
+ * });
+ * pool.onProgress(({ progress }) => console.log(progress));
+ *
+ * const summaries = await Promise.all(
+ *   files.map((file) => pool.submit(`Summarize ${file}`).asText())
+ * );
+ * await pool.shutdown();
+ * ```
+ */
+export class ClaudePool {
+  private readonly concurrency: number;
+  private readonly createBuilder: () => QueryBuilder;
+  private waiters: Waiter[] = [];
+  // Slots taken by running jobs and jobs about to start
+  private slots = 0;
+  // Stop functions of the running jobs
+  private running = new Set<() => Promise<void>>();
+  private progressHandlers: Array<(event: PoolEvent) => void> = [];
+  private progress: PoolProgress = {
+    queued: 0,
+    running: 0,
+    completed: 0,
+    failed: 0,
+    cancelled: 0
+  };
+  private jobCount = 0;
+  private order = 0;
+  private closed = false;
+
+  constructor(options: PoolOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? 4);
+    this.createBuilder = options.builder ?? claude;
+  }
+
+  /**
+   * Queue a query and return its parser
+   */
+  submit(prompt: string, options: PoolSubmitOptions = {}): ResponseParser {
+    const { configure, signal, ...job } = options;
+    const builder = this.createBuilder();
+    configure?.(builder);
+    return builder.withPool(this, job).query(prompt, signal);
+  }
+
+  /**
+   * Listen for jobs being queued, started and finished
+   * Returns unsubscribe function
+   */
+  onProgress(handler: (event: PoolEvent) => void): () => void {
+    this.progressHandlers.push(handler);
+    return () => {
+      const index = this.progressHandlers.indexOf(handler);
+      if (index > -1) {
+        this.progressHandlers.splice(index, 1);
+      }
+    };
+  }
+
+  getProgress(): PoolProgress {
+    return { ...this.progress };
+  }
+
+  /**
+   * Run a query in a slot of the pool; used by QueryBuilder.withPool()
+   *
+   * @param start - Starts the query, which must stop when the signal aborts
+   */
+  async *schedule(
+    start: (signal: AbortSignal) => AsyncGenerator<Message>,
+    job: PoolJobOptions = {},
+    signal?: AbortSignal
+  ): AsyncGenerator<Message> {
+    if (this.closed) {
+      throw new ClaudeSDKError('Pool has been shut down');
+    }
+
+    const jobId = job.id ?? `job-${++this.jobCount}`;
+    const priority = job.priority ?? 0;
+    const emit = (type: PoolEvent['type'], error?: Error) =>
+      this.emit({ type, jobId, priority, error });
+
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) abort();
+    signal?.addEventListener('abort', abort, { once: true });
+
+    try {
+      this.progress.queued++;
+      emit('queued');
+      try {
+        await this.acquire(priority, controller.signal);
+        if (this.closed) {
+          this.release();
+          throw new AbortError('Pool was shut down');
+        }
+      } finally {
+        this.progress.queued--;
+      }
+    } catch (error) {
+      signal?.removeEventListener('abort', abort);
+      this.progress.cancelled++;
+      emit('cancelled', error as Error);
+      throw error;
+    }
+
+    const messages = start(controller.signal);
+    // Kills the CLI and ends the query even when nobody is reading it
+    const stop = async () => {
+      controller.abort('Pool was shut down');
+      await messages.return(undefined).catch(() => {});
+    };
+    this.running.add(stop);
+    this.progress.running++;
+    emit('started');
+
+    let outcome: 'completed' | 'failed' | 'cancelled' = 'cancelled';
+    let failure: Error | undefined;
+    try {
+      yield* messages;
+      if (controller.signal.aborted) {
+        throw new AbortError('Query was aborted', controller.signal.reason);
+      }
+      outcome = 'completed';
+    } catch (error) {
+      failure = error as Error;
+      outcome = error instanceof AbortError ? 'cancelled' : 'failed';
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', abort);
+      this.running.delete(stop);
+      this.progress.running--;
+      this.progress[outcome]++;
+      emit(outcome, failure);
+      this.release();
+    }
+  }
+
+  /**
+   * Cancel queued jobs, kill running ones and wait until every CLI process
+   * has exited. The pool accepts no jobs afterwards.
+   */
+  async shutdown(): Promise<void> {
+    this.closed = true;
+
+    const error = new AbortError('Pool was shut down');
+    for (const waiter of this.waiters.splice(0)) waiter.cancel(error);
+    await Promise.all([...this.running].map((stop) => stop()));
+  }
+
+  private acquire(priority: number, signal: AbortSignal): Promise<void> {
+    if (signal.aborted) {
+      return Promise.reject(new AbortError('Query was aborted', signal.reason));
+    }
+    if (this.slots < this.concurrency) {
+      this.slots++;
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiters = this.waiters.filter((entry) => entry !== waiter);
+        reject(new AbortError('Query was aborted', signal.reason));
+      };
+      const waiter: Waiter = {
+        priority,
+        order: this.order++,
+        start: () => {
+          signal.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        cancel: (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      this.waiters.push(waiter);
+      this.waiters.sort((a, b) => b.priority - a.priority || a.order - b.order);
+    });
+  }
+
+  // Hand the slot to the next job, if any
+  private release(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      next.start();
+    } else {
+      this.slots--;
+    }
+  }
+
+  private emit(event: Omit<PoolEvent, 'progress'>): void {
+    for (const handler of this.progressHandlers) {
+      try {
+        handler({ ...event, progress: this.getProgress() });
+      } catch {
+        // A failing progress handler must not break the job
+      }
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { createReadStream } from 'node:fs';
+import { readdir } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { basename, join, resolve } from 'node:path';
+import { createInterface } from 'node:readline';
+import type { SessionSummary } from './types.js';
+
+export interface ListSessionsOptions {
+  // Project directory whose sessions to list (defaults to process.cwd())
+  cwd?: string;
+  // Claude config directory (defaults to $CLAUDE_CONFIG_DIR or ~/.claude)
+  configDir?: string;
+}
+
+/**
+ * Directory where the CLI keeps the session transcripts of a project:
+ * `<config dir>/projects/<cwd with every non-alphanumeric character
+ * replaced by "-">`
+ */
+export function projectSessionsDir(options: ListSessionsOptions = {}): string {
+  const configDir =
+    options.configDir ??
+    process.env.CLAUDE_CONFIG_DIR ??
+    join(homedir(), '.claude');
+  const cwd = resolve(options.cwd ?? process.cwd());
+  return join(configDir, 'projects', cwd.replace(/[^a-zA-Z0-9]/g, '-'));
+}
+
+/**
+ * List the sessions the CLI has recorded for a directory, most recently
+ * active first
+ *
+ * Reads the transcripts the CLI writes to disk, so sessions from
+ * interactive use show up as well as SDK queries. Resume one with
+ * `withSessionId(summary.sessionId)`, or the latest with `continueLast()`.
+ */
+export async function listSessions(
+  options: ListSessionsOptions = {}
+): Promise<SessionSummary[]> {
+  const directory = projectSessionsDir(options);
+  let files: string[];
+  try {
+    files = await readdir(directory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const summaries: SessionSummary[] = [];
+  for (const file of files.filter((name) => name.endsWith('.jsonl'))) {
+    const summary = await summarizeTranscript(join(directory, file));
+    if (summary) summaries.push(summary);
+  }
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+async function summarizeTranscript(
+  path: string
+): Promise<SessionSummary | undefined> {
+  const summary: SessionSummary = {
+    sessionId: basename(path, '.jsonl'),
+    path,
+    createdAt: '',
+    updatedAt: '',
+    messageCount: 0
+  };
+
+  const lines = createInterface({
+    input: createReadStream(path, 'utf8'),
+    crlfDelay: Infinity
+  });
+  for await (const line of lines) {
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      // A transcript being written can end in a partial line
+      continue;
+    }
+    if (typeof value !== 'object' || value === null) continue;
+    const entry = value as Record<string, unknown>;
+
+    if (typeof entry.timestamp === 'string') {
+      if (!summary.createdAt) summary.createdAt = entry.timestamp;
+      summary.updatedAt = entry.timestamp;
+    }
+    if (typeof entry.cwd === 'string') summary.cwd ??= entry.cwd;
+
+    // Subagent traffic is not part of the conversation
+    const isMessage = entry.type === 'user' || entry.type === 'assistant';
+    if (!isMessage || entry.isSidechain) continue;
+
+    summary.messageCount++;
+    if (entry.type === 'user' && summary.firstPrompt === undefined) {
+      const message = entry.message as { content?: unknown } | undefined;
+      summary.firstPrompt = promptText(message?.content);
+    }
+  }
+
+  // Files without any timestamped entry are not transcripts
+  return summary.createdAt ? summary : undefined;
+}
+
+// Text of a user prompt; undefined for tool results
+function promptText(content: unknown): string | undefined {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return undefined;
+
+  const text = content
+    .filter((block) => block?.type === 'text')
+    .map((block) => block.text)
+    .join('\n');
+  return text || undefined;
+}
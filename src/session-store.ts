@@ -0,0 +1,151 @@
+import { appendFile, mkdir, readFile, readdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+  Message,
+  SessionEntry,
+  SessionStore,
+  StoredConversation
+} from './types.js';
+
+/**
+ * Session store that keeps conversations in memory, for tests and
+ * single-process servers
+ */
+export class MemorySessionStore implements SessionStore {
+  private entries = new Map<string, SessionEntry[]>();
+
+  async append(key: string, entry: SessionEntry): Promise<void> {
+    const entries = this.entries.get(key) ?? [];
+    entries.push(entry);
+    this.entries.set(key, entries);
+  }
+
+  async read(key: string): Promise<SessionEntry[]> {
+    return [...(this.entries.get(key) ?? [])];
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.entries.keys()];
+  }
+}
+
+/**
+ * Session store that writes one JSON Lines file per conversation key to a
+ * directory, so conversations survive restarts and deploys
+ */
+export class FileSessionStore implements SessionStore {
+  private ready?: Promise<unknown>;
+
+  constructor(private readonly directory: string) {}
+
+  async append(key: string, entry: SessionEntry): Promise<void> {
+    this.ready ??= mkdir(this.directory, { recursive: true });
+    await this.ready;
+    await appendFile(this.file(key), JSON.stringify(entry) + '\n', 'utf8');
+  }
+
+  async read(key: string): Promise<SessionEntry[]> {
+    let contents: string;
+    try {
+      contents = await readFile(this.file(key), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    return contents
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as SessionEntry);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.file(key), { force: true });
+  }
+
+  async keys(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    return files
+      .filter((file) => file.endsWith('.jsonl'))
+      .map((file) => decodeURIComponent(file.slice(0, -'.jsonl'.length)));
+  }
+
+  // Keys are encoded so any string is a safe file name
+  private file(key: string): string {
+    return join(this.directory, `${encodeURIComponent(key)}.jsonl`);
+  }
+}
+
+/**
+ * Load a stored conversation: its transcript, session ID lineage, options
+ * and usage
+ *
+ * @returns undefined when nothing is stored under the key
+ */
+export async function loadConversation(
+  store: SessionStore,
+  key: string
+): Promise<StoredConversation | undefined> {
+  const entries = await store.read(key);
+  if (entries.length === 0) return undefined;
+
+  const conversation: StoredConversation = {
+    key,
+    sessionId: null,
+    sessionIds: [],
+    options: {},
+    messages: [],
+    usage: {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+      totalCost: 0
+    },
+    createdAt: entries[0]!.at,
+    updatedAt: entries[entries.length - 1]!.at
+  };
+
+  for (const entry of entries) {
+    switch (entry.type) {
+      case 'options':
+        conversation.options = entry.options;
+        break;
+      case 'session_id':
+        if (!conversation.sessionIds.includes(entry.sessionId)) {
+          conversation.sessionIds.push(entry.sessionId);
+        }
+        conversation.sessionId = entry.sessionId;
+        break;
+      case 'prompt':
+        conversation.messages.push(entry.message);
+        break;
+      case 'message':
+        conversation.messages.push(entry.message);
+        addUsage(conversation, entry.message);
+        break;
+    }
+  }
+
+  return conversation;
+}
+
+function addUsage(conversation: StoredConversation, message: Message): void {
+  if (message.type !== 'result') return;
+
+  const { usage } = conversation;
+  usage.inputTokens += message.usage?.input_tokens ?? 0;
+  usage.outputTokens += message.usage?.output_tokens ?? 0;
+  usage.cacheCreationTokens += message.usage?.cache_creation_input_tokens ?? 0;
+  usage.cacheReadTokens += message.usage?.cache_read_input_tokens ?? 0;
+  usage.totalCost += message.cost?.total_cost ?? message.total_cost_usd ?? 0;
+}
@@ -0,0 +1,107 @@
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Absolute path to the fake Claude Code CLI shipped with the SDK
+ *
+ * Use it with `withExecutable()` to run the full transport stack end-to-end
+ * without the real CLI. Its behaviour is driven by a scenario passed through
+ * the `FAKE_CLAUDE_SCENARIO` environment variable.
+ *
+ * @example
+ * ```typescript
+ * const text = await claude()
+ *   .withExecutable(fakeClaudePath)
+ *   .withEnv(fakeClaudeEnv({ turns: [[{ text: 'Hi!' }, { result: 'Hi!' }]] }))
+ *   .query('Hello')
+ *   .asText();
+ * ```
+ */
+export const fakeClaudePath = fileURLToPath(
+  new URL('../testing/fake-claude.mjs', import.meta.url)
+);
+
+/**
+ * A single action performed by the fake CLI while handling a user message
+ *
+ * Fields are applied in this order: `delayMs`, `stderr`, `stdout`, `message`,
+ * `toolUse`, `text`, `result`, `exit`.
+ */
+export interface FakeClaudeStep {
+  // Wait before performing the rest of the step. An interrupt control request
+  // cuts the wait short and ends the turn with an error_during_execution
+  // result.
+  delayMs?: number;
+  // Start a long-running child process, as a tool's shell would, and log
+  // its pid as a "child" event
+  spawnChild?: boolean;
+  // Raw text written to stderr
+  stderr?: string;
+  // Raw text written to stdout (e.g. garbage between JSON messages)
+  stdout?: string;
+  // Stream-json message to emit; session_id is filled in when missing
+  message?: Record<string, unknown>;
+  // Assistant tool_use message followed by its tool_result. SDK PreToolUse
+  // hooks run first, then (with --permission-prompt-tool stdio) can_use_tool,
+  // then PostToolUse hooks. The result echoes the (possibly rewritten) input
+  // or the denial message; `mcp__<server>__<tool>` names of SDK MCP servers
+  // are called through mcp_message and return the handler's content.
+  toolUse?: { name: string; input?: Record<string, unknown>; id?: string };
+  // Shorthand for an assistant message with a single text block. With
+  // --include-partial-messages it is preceded by one text delta per word.
+  text?: string;
+  // Shorthand for a success result message. SDK Stop hooks run first; a
+  // blocking one adds a "Continuing: <reason>" assistant message.
+  result?: string;
+  // Exit immediately with this code
+  exit?: number;
+}
+
+/**
+ * Scenario describing how the fake CLI behaves
+ */
+export interface FakeClaudeScenario {
+  // Output of `--version` (defaults to "1.0.0 (Claude Code)")
+  version?: string;
+  // Output of `--help` (defaults to a help text listing stream-json input)
+  help?: string;
+  // Session ID on every message (defaults to the --resume ID, a new
+  // "<resumed ID>-fork-<random>" ID with --fork-session, or
+  // "fake-session-id")
+  sessionId?: string;
+  // Emit a system init message before the first turn (default true)
+  init?: boolean;
+  // Tools listed in the init message
+  tools?: string[];
+  // Delay before reading any input
+  stallMs?: number;
+  // One list of steps per user message; missing turns echo the prompt
+  turns?: FakeClaudeStep[][];
+  // Turns played instead of `turns` when started with --resume
+  resumeTurns?: FakeClaudeStep[][];
+  // Exit code once stdin closes (default 0)
+  exitCode?: number;
+  // Control request subtypes (e.g. "set_model") answered with an error, as
+  // an older CLI would
+  unsupportedControlRequests?: string[];
+  // Control request subtypes never answered, as a hung CLI would
+  ignoredControlRequests?: string[];
+}
+
+/**
+ * Build the environment variables that configure the fake CLI
+ *
+ * @param scenario - Scenario to run
+ * @param logFile - Optional file the fake CLI appends its argv and stdin to
+ */
+export function fakeClaudeEnv(
+  scenario: FakeClaudeScenario = {},
+  logFile?: string
+): Record<string, string> {
+  const env: Record<string, string> = {
+    FAKE_CLAUDE_SCENARIO: JSON.stringify(scenario)
+  };
+  if (logFile) {
+    env.FAKE_CLAUDE_LOG = logFile;
+  }
+  return env;
+}
@@ -1,5 +1,9 @@
 // Permission modes for Claude Code operations
-export type PermissionMode = 'default' | 'acceptEdits' | 'bypassPermissions';
+export type PermissionMode =
+  | 'default'
+  | 'acceptEdits'
+  | 'bypassPermissions'
+  | 'plan';
 
 // Handler for process completion events
 export type ProcessCompleteHandler = (exitCode: number, error?: Error) => void;
@@ -24,7 +28,8 @@ export type ToolName =
   | 'ExitPlanMode'
   | 'KillBash'
   | 'BashOutput'
-  | 'MCPTool';
+  | 'MCPTool'
+  | `mcp__${string}`;
 
 // Content block types
 export interface TextBlock {
@@ -46,41 +51,174 @@ export interface ToolResultBlock {
   is_error?: boolean;
 }
 
-export type ContentBlock = TextBlock | ToolUseBlock | ToolResultBlock;
+// Extended thinking emitted before the answer
+export interface ThinkingBlock {
+  type: 'thinking';
+  thinking: string;
+  signature?: string;
+}
+
+// Thinking that was encrypted by the API's safety systems
+export interface RedactedThinkingBlock {
+  type: 'redacted_thinking';
+  data: string;
+}
+
+// Inline base64 data
+export interface Base64Source {
+  type: 'base64';
+  media_type: string;
+  data: string;
+}
+
+// Content referenced by URL
+export interface URLSource {
+  type: 'url';
+  url: string;
+}
+
+// Plain-text document content
+export interface PlainTextSource {
+  type: 'text';
+  media_type: 'text/plain';
+  data: string;
+}
+
+// Local file that the SDK reads and inlines before sending; the media type
+// is inferred from the extension unless given
+export interface FilePathSource {
+  type: 'path';
+  path: string;
+  media_type?: string;
+}
+
+export interface ImageBlock {
+  type: 'image';
+  source: Base64Source | URLSource | FilePathSource;
+}
+
+export interface DocumentBlock {
+  type: 'document';
+  source: Base64Source | URLSource | PlainTextSource | FilePathSource;
+  title?: string;
+  context?: string;
+}
+
+export type ContentBlock =
+  | TextBlock
+  | ToolUseBlock
+  | ToolResultBlock
+  | ThinkingBlock
+  | RedactedThinkingBlock
+  | ImageBlock
+  | DocumentBlock;
+
+// Blocks that can be sent as user input
+export type UserContentBlock = TextBlock | ImageBlock | DocumentBlock;
+
+// Initial prompt: plain text or user content blocks
+export type PromptInput = string | UserContentBlock[];
+
+// Token usage reported by the API
+export interface TokenUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+  service_tier?: string;
+}
+
+// Untouched JSON object as emitted by the CLI
+export type RawCLIMessage = Record<string, unknown>;
 
 // Message types
 export interface UserMessage {
   type: 'user';
   content: string | Array<TextBlock | unknown>;
   session_id?: string;
+  // Set when the message is a tool result for a sub-agent (Task) tool call
+  parent_tool_use_id?: string | null;
+  uuid?: string;
+  raw?: RawCLIMessage;
 }
 
 export interface AssistantMessage {
   type: 'assistant';
   content: ContentBlock[];
   session_id?: string;
+  // API message envelope fields
+  id?: string;
+  model?: string;
+  stop_reason?: string | null;
+  stop_sequence?: string | null;
+  usage?: TokenUsage;
+  parent_tool_use_id?: string | null;
+  uuid?: string;
+  raw?: RawCLIMessage;
+}
+
+// MCP server status reported in the system init message
+export interface MCPServerStatus {
+  name: string;
+  status: string;
 }
 
-export interface SystemMessage {
+// Fields shared by all system messages
+interface SystemMessageBase {
   type: 'system';
-  subtype?: string;
   data?: any;
   session_id?: string;
+  uuid?: string;
+  raw?: RawCLIMessage;
 }
 
-export interface ResultMessage {
-  type: 'result';
+// First message of every session, describing how the CLI was configured
+export interface SystemInitMessage extends SystemMessageBase {
+  subtype: 'init';
+  cwd?: string;
+  model?: string;
+  tools?: string[];
+  mcp_servers?: MCPServerStatus[];
+  permissionMode?: PermissionMode;
+  apiKeySource?: string;
+  slash_commands?: string[];
+}
+
+// Any other system notification (subtype is open-ended)
+export interface GenericSystemMessage extends SystemMessageBase {
   subtype?: string;
+}
+
+export type SystemMessage = SystemInitMessage | GenericSystemMessage;
+
+// Result subtypes emitted by the CLI
+export type ResultSubtype =
+  | 'success'
+  | 'error_max_turns'
+  | 'error_during_execution';
+
+// Tool call the CLI refused because permission was denied
+export interface PermissionDenial {
+  tool_name: string;
+  tool_use_id: string;
+  tool_input: Record<string, unknown>;
+}
+
+// Fields shared by all result messages
+interface ResultMessageBase {
+  type: 'result';
   content: string;
   result?: string;
   is_error?: boolean;
   session_id?: string;
-  usage?: {
-    input_tokens?: number;
-    output_tokens?: number;
-    cache_creation_input_tokens?: number;
-    cache_read_input_tokens?: number;
-  };
+  duration_ms?: number;
+  duration_api_ms?: number;
+  num_turns?: number;
+  total_cost_usd?: number;
+  permission_denials?: PermissionDenial[];
+  usage?: TokenUsage;
+  // Set when the turn was stopped by Conversation.interrupt()
+  interrupted?: boolean;
   cost?: {
     input_cost?: number;
     output_cost?: number;
@@ -88,13 +226,129 @@ export interface ResultMessage {
     cache_read_cost?: number;
     total_cost?: number;
   };
+  uuid?: string;
+  raw?: RawCLIMessage;
+}
+
+export interface SuccessResultMessage extends ResultMessageBase {
+  subtype: 'success';
+}
+
+export interface ErrorResultMessage extends ResultMessageBase {
+  subtype: 'error_max_turns' | 'error_during_execution';
+}
+
+// Result without a subtype (older CLI versions and hand-built messages)
+export interface UntypedResultMessage extends ResultMessageBase {
+  subtype?: undefined;
+}
+
+export type ResultMessage =
+  | SuccessResultMessage
+  | ErrorResultMessage
+  | UntypedResultMessage;
+
+// Incremental content of a streamed content block
+export interface TextDelta {
+  type: 'text_delta';
+  text: string;
+}
+
+export interface InputJSONDelta {
+  type: 'input_json_delta';
+  partial_json: string;
+}
+
+export interface ThinkingDelta {
+  type: 'thinking_delta';
+  thinking: string;
+}
+
+export interface SignatureDelta {
+  type: 'signature_delta';
+  signature: string;
+}
+
+export type ContentBlockDelta =
+  | TextDelta
+  | InputJSONDelta
+  | ThinkingDelta
+  | SignatureDelta;
+
+// Raw API stream events forwarded by the CLI with --include-partial-messages
+export interface MessageStartEvent {
+  type: 'message_start';
+  message: {
+    id?: string;
+    model?: string;
+    usage?: TokenUsage;
+  };
+}
+
+export interface ContentBlockStartEvent {
+  type: 'content_block_start';
+  index: number;
+  content_block: ContentBlock;
+}
+
+export interface ContentBlockDeltaEvent {
+  type: 'content_block_delta';
+  index: number;
+  delta: ContentBlockDelta;
+}
+
+export interface ContentBlockStopEvent {
+  type: 'content_block_stop';
+  index: number;
+}
+
+export interface MessageDeltaEvent {
+  type: 'message_delta';
+  delta: {
+    stop_reason?: string | null;
+    stop_sequence?: string | null;
+  };
+  usage?: TokenUsage;
+}
+
+export interface MessageStopEvent {
+  type: 'message_stop';
+}
+
+export type StreamEvent =
+  | MessageStartEvent
+  | ContentBlockStartEvent
+  | ContentBlockDeltaEvent
+  | ContentBlockStopEvent
+  | MessageDeltaEvent
+  | MessageStopEvent;
+
+// Partial assistant output, only sent when includePartialMessages is set.
+// The complete assistant message still follows the deltas.
+export interface StreamEventMessage {
+  type: 'stream_event';
+  event: StreamEvent;
+  session_id?: string;
+  parent_tool_use_id?: string | null;
+  uuid?: string;
+  raw?: RawCLIMessage;
 }
 
 export type Message =
   | UserMessage
   | AssistantMessage
   | SystemMessage
-  | ResultMessage;
+  | ResultMessage
+  | StreamEventMessage;
+
+/**
+ * Check whether a message is the system init message
+ */
+export function isSystemInitMessage(
+  message: Message
+): message is SystemInitMessage {
+  return message.type === 'system' && message.subtype === 'init';
+}
 
 // MCP server configuration
 export interface MCPServer {
@@ -105,9 +359,418 @@ export interface MCPServer {
   url?: string;
 }
 
+// Content returned by an in-process MCP tool
+export type SdkMcpToolContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string };
+
+export interface SdkMcpToolResult {
+  content: SdkMcpToolContent[];
+  isError?: boolean;
+}
+
+// Tool implemented in this process and exposed to Claude over MCP
+export interface SdkMcpTool<Input = Record<string, unknown>> {
+  name: string;
+  description: string;
+  // JSON Schema describing the tool input
+  inputSchema: Record<string, unknown>;
+  // Strings are sent as a single text block; thrown errors become error results
+  handler(
+    input: Input
+  ): SdkMcpToolResult | string | Promise<SdkMcpToolResult | string>;
+}
+
+// MCP server whose tools run in this process; the CLI reaches it through
+// the control protocol instead of spawning anything
+export interface SdkMcpServer {
+  type: 'sdk';
+  name: string;
+  version: string;
+  // Tools with any input type; handlers are methods, so they are compatible
+  tools: SdkMcpTool<unknown>[];
+}
+
 // Debug callback function type
 export type DebugCallback = (...args: any[]) => void;
 
+// Transport used by the client to exchange stream-json with Claude Code
+export interface Transport {
+  connect(): Promise<void>;
+  receiveMessages(): AsyncGenerator<CLIOutput>;
+  writeToStdin(userMessage: UserMessage): void;
+  // Write a raw stream-json message such as a control response
+  writeMessage(message: RawCLIMessage): void;
+  closeStdin(): void;
+  terminate(): Promise<void>;
+  disconnect(): Promise<void>;
+  isActive(): boolean;
+  // Stop the process and everything it started without waiting for it to
+  // finish (disconnect() is used when missing)
+  kill?(): Promise<void>;
+  // Last lines the process wrote to stderr
+  getStderr?(): string;
+  // Listen for stdout exactly as it is read, before it is parsed; returns
+  // an unsubscribe function
+  onRawOutput?(listener: (data: string) => void): () => void;
+}
+
+// Everything a transport needs to start a single query
+export interface TransportConfig {
+  // Content blocks are only sent as-is in streaming mode
+  prompt: PromptInput;
+  // Messages written before the prompt in streaming mode (e.g. the control
+  // protocol initialize request)
+  initialMessages?: RawCLIMessage[];
+  options: ClaudeCodeOptions;
+  streamingMode: boolean;
+  keepAlive: boolean;
+  processCompleteHandlers: Array<ProcessCompleteHandler>;
+}
+
+// Creates a fresh transport for every query (defaults to SubprocessCLITransport)
+export type TransportFactory = (config: TransportConfig) => Transport;
+
+// Limit a TimeoutError was raised for
+export type TimeoutKind = 'connect' | 'idle' | 'total';
+
+// Limits in milliseconds for QueryBuilder.withTimeout(); `control` is how
+// long to wait for the CLI to answer a control request
+export type QueryTimeouts = Partial<Record<TimeoutKind | 'control', number>>;
+
+// Cause of a failed query, as used to decide whether to retry it
+export type FailureKind =
+  | 'rate_limit'
+  | 'overloaded'
+  | 'network'
+  | 'auth'
+  | 'max_turns'
+  | 'permission_denied'
+  | 'context_window'
+  | 'timeout'
+  | 'json_decode'
+  | 'unknown';
+
+// A failed attempt: the error thrown, or the error result the CLI reported
+export interface QueryFailure {
+  kind: FailureKind;
+  error?: Error;
+  result?: ResultMessage;
+}
+
+export interface RetryPolicy {
+  // Total attempts including the first one (default 3)
+  attempts?: number;
+  // Delay in ms before each retry: a constant, a function of the retry
+  // number (1-based), or exponential backoff settings (default 1s doubling
+  // up to 30s)
+  backoff?:
+    | number
+    | ((retry: number) => number)
+    | { initialMs?: number; factor?: number; maxMs?: number };
+  // Failure kinds worth retrying (default rate_limit, overloaded and
+  // network), or a predicate
+  retryOn?: FailureKind[] | ((failure: QueryFailure) => boolean);
+}
+
+export interface RetryEvent extends QueryFailure {
+  // 1 for the first retry
+  retry: number;
+  delayMs: number;
+  // Session the retry resumes, if the failed attempt got that far
+  sessionId?: string;
+}
+
+export type RetryHandler = (event: RetryEvent) => void | Promise<void>;
+
+// A session the CLI recorded on disk, as returned by listSessions()
+export interface SessionSummary {
+  sessionId: string;
+  // Transcript file
+  path: string;
+  // Directory the session ran in
+  cwd?: string;
+  // ISO timestamps of the first and last transcript entries
+  createdAt: string;
+  updatedAt: string;
+  // First prompt that was not a tool result
+  firstPrompt?: string;
+  // User and assistant messages, not counting subagents
+  messageCount: number;
+}
+
+// Where a forked conversation branched off its parent
+export interface ConversationBranch {
+  // Session the fork was resumed from
+  parentSessionId: string;
+  // Number of messages the parent had received when it was forked; the
+  // fork shares everything before this point
+  forkPoint: number;
+}
+
+// One record in a stored conversation, appended as the conversation runs
+export type SessionEntry =
+  | { type: 'options'; options: ClaudeCodeOptions; at: string }
+  | { type: 'session_id'; sessionId: string; at: string }
+  | { type: 'prompt'; message: UserMessage; at: string }
+  | { type: 'message'; message: Message; at: string };
+
+// Persists conversations as append-only lists of entries per key
+export interface SessionStore {
+  append(key: string, entry: SessionEntry): Promise<void>;
+  // Entries in the order they were appended; empty for an unknown key
+  read(key: string): Promise<SessionEntry[]>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export interface SessionUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalCost: number;
+}
+
+// A stored conversation with its entries folded together
+export interface StoredConversation {
+  key: string;
+  // Latest session ID, to resume from
+  sessionId: string | null;
+  // Every session ID the conversation has had, oldest first
+  sessionIds: string[];
+  // Latest options, without callbacks, secrets and the environment
+  options: ClaudeCodeOptions;
+  // Prompts and CLI messages in order
+  messages: Message[];
+  // Summed over all result messages
+  usage: SessionUsage;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Spending limits for QueryBuilder.withBudget() and Conversation.withBudget()
+export interface Budget {
+  // Total cost in USD, as reported by result messages
+  maxCostUsd?: number;
+  // Input plus output tokens
+  maxTokens?: number;
+  // Fractions of a limit at which to log a warning (default [0.8])
+  warnAt?: number[];
+}
+
+// Usage counted against a budget
+export interface BudgetUsage extends SessionUsage {
+  // Input plus output tokens
+  totalTokens: number;
+}
+
+// The subset of JSON Schema that asStructured() validates
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JSONSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  description?: string;
+  [keyword: string]: unknown;
+}
+
+export type JSONSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+// Validator with a Zod-style safeParse(), such as a Zod schema
+export interface StructuredValidator<T> {
+  safeParse(
+    data: unknown
+  ):
+    | { success: true; data: T }
+    | {
+        success: false;
+        error: {
+          message: string;
+          issues?: Array<{ path: (string | number)[]; message: string }>;
+        };
+      };
+}
+
+export type StructuredSchema<T> = JSONSchema | StructuredValidator<T>;
+
+export interface StructuredOutputOptions {
+  // Follow-up prompts with the validation errors before giving up (default 2)
+  maxRetries?: number;
+  // Schema shown to Claude when validating with a StructuredValidator
+  jsonSchema?: JSONSchema;
+}
+
+// Extra information the CLI sends with a permission request
+export interface ToolPermissionContext {
+  // Permission rule updates the CLI would offer the user (e.g. "always allow")
+  suggestions: unknown[];
+  // Path outside the allowed directories that triggered the request
+  blockedPath?: string;
+  toolUseId?: string;
+}
+
+export interface PermissionResultAllow {
+  behavior: 'allow';
+  // Replaces the tool input; the original input is used when omitted
+  updatedInput?: Record<string, unknown>;
+}
+
+export interface PermissionResultDeny {
+  behavior: 'deny';
+  // Explanation shown to Claude
+  message: string;
+  // Stop the whole turn instead of letting Claude try something else
+  interrupt?: boolean;
+}
+
+export type PermissionResult = PermissionResultAllow | PermissionResultDeny;
+
+// Decides whether Claude may run a tool, consulted for every tool request
+export type CanUseTool = (
+  toolName: string,
+  input: Record<string, unknown>,
+  context: ToolPermissionContext
+) => PermissionResult | Promise<PermissionResult>;
+
+// Events the CLI can report to in-process hooks
+export type HookEvent =
+  | 'PreToolUse'
+  | 'PostToolUse'
+  | 'Stop'
+  | 'UserPromptSubmit';
+
+// Fields the CLI sends with every hook invocation
+export interface HookInputBase {
+  session_id: string;
+  transcript_path: string;
+  cwd: string;
+  permission_mode?: string;
+}
+
+export interface PreToolUseHookInput extends HookInputBase {
+  hook_event_name: 'PreToolUse';
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+  tool_use_id?: string;
+}
+
+export interface PostToolUseHookInput extends HookInputBase {
+  hook_event_name: 'PostToolUse';
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+  tool_response: unknown;
+  tool_use_id?: string;
+}
+
+export interface StopHookInput extends HookInputBase {
+  hook_event_name: 'Stop';
+  // True when Claude is already continuing because of a Stop hook
+  stop_hook_active: boolean;
+}
+
+export interface UserPromptSubmitHookInput extends HookInputBase {
+  hook_event_name: 'UserPromptSubmit';
+  prompt: string;
+}
+
+// Fields every hook may return
+export interface HookResultBase {
+  // false stops Claude after the hook runs
+  continue?: boolean;
+  // Shown to the user when continue is false
+  stopReason?: string;
+  // Hide the hook's output from the transcript
+  suppressOutput?: boolean;
+  // Warning shown to the user
+  systemMessage?: string;
+}
+
+export interface PreToolUseHookResult extends HookResultBase {
+  // allow skips the permission prompt, deny blocks the call, ask prompts
+  decision?: 'allow' | 'deny' | 'ask';
+  // Shown to Claude when denying, to the user otherwise
+  reason?: string;
+  // Replaces the tool input
+  updatedInput?: Record<string, unknown>;
+}
+
+export interface PostToolUseHookResult extends HookResultBase {
+  // block tells Claude the result is unacceptable, with reason as feedback
+  decision?: 'block';
+  reason?: string;
+  // Extra context added for Claude after the tool result
+  additionalContext?: string;
+  // Replaces the output of an MCP tool
+  updatedMCPToolOutput?: unknown;
+}
+
+export interface StopHookResult extends HookResultBase {
+  // block keeps Claude working; reason tells it what to do next
+  decision?: 'block';
+  reason?: string;
+}
+
+export interface UserPromptSubmitHookResult extends HookResultBase {
+  // block rejects the prompt, reason is shown to the user
+  decision?: 'block';
+  reason?: string;
+  // Extra context added for Claude alongside the prompt
+  additionalContext?: string;
+}
+
+// Hooks may return nothing to let the CLI carry on unchanged
+export type HookCallback<Input, Result> = (
+  input: Input
+) => Result | void | Promise<Result | void>;
+
+export type PreToolUseHook = HookCallback<
+  PreToolUseHookInput,
+  PreToolUseHookResult
+>;
+export type PostToolUseHook = HookCallback<
+  PostToolUseHookInput,
+  PostToolUseHookResult
+>;
+export type StopHook = HookCallback<StopHookInput, StopHookResult>;
+export type UserPromptSubmitHook = HookCallback<
+  UserPromptSubmitHookInput,
+  UserPromptSubmitHookResult
+>;
+
+// A hook and the tool names it applies to (a regex such as 'Edit|Write';
+// all tools when omitted)
+export interface HookRegistration<Hook> {
+  matcher?: string;
+  hook: Hook;
+}
+
+// In-process hooks registered with the CLI when the process starts
+export interface HookConfig {
+  PreToolUse?: HookRegistration<PreToolUseHook>[];
+  PostToolUse?: HookRegistration<PostToolUseHook>[];
+  Stop?: HookRegistration<StopHook>[];
+  UserPromptSubmit?: HookRegistration<UserPromptSubmitHook>[];
+}
+
 // Main options interface
 export interface ClaudeCodeOptions {
   model?: string;
@@ -116,7 +779,7 @@ export interface ClaudeCodeOptions {
   tools?: ToolName[];
   allowedTools?: ToolName[];
   deniedTools?: ToolName[];
-  mcpServers?: Record<string, MCPServer>;
+  mcpServers?: Record<string, MCPServer | SdkMcpServer>;
   permissionMode?: PermissionMode;
   context?: string[];
   maxTokens?: number;
@@ -126,13 +789,38 @@ export interface ClaudeCodeOptions {
   appendSystemPrompt?: string;
   cwd?: string;
   env?: Record<string, string>;
+  // Deprecated alias for connectTimeout
   timeout?: number;
+  // Milliseconds to wait for the CLI's first message
+  connectTimeout?: number;
+  // Milliseconds without a message while a turn is running
+  idleTimeout?: number;
+  // Milliseconds for the whole query, from start to the final message
+  totalTimeout?: number;
+  // Milliseconds to wait for the CLI to answer a control request such as an
+  // interrupt (default 30000)
+  controlRequestTimeout?: number;
+  // Aborting it kills the CLI and rejects the query with AbortError
+  signal?: AbortSignal;
   debug?: boolean | DebugCallback;
   addDirectories?: string[];
   sessionId?: string;
+  // Continue the most recent session in cwd (ignored with sessionId)
+  continueSession?: boolean;
+  // With sessionId: continue in a new session that starts from a copy of
+  // it, leaving the original untouched
+  forkSession?: boolean;
   keepAlive?: boolean;
   executablePath?: string;
   wrapperCommand?: string[];
+  transport?: TransportFactory;
+  maxMessageSize?: number;
+  // Emit stream_event messages with token deltas before each assistant message
+  includePartialMessages?: boolean;
+  // Programmatic tool approval over the control protocol (implies streaming input)
+  canUseTool?: CanUseTool;
+  // In-process hooks invoked over the control protocol (implies streaming input)
+  hooks?: HookConfig;
 }
 
 // Additional types for internal use
@@ -154,4 +842,135 @@ export interface CLIEnd {
   type: 'end';
 }
 
-export type CLIOutput = CLIMessage | CLIError | CLIEnd;
+// Raw stream-json messages as written by the CLI to stdout
+export interface CLIAssistantOutput {
+  type: 'assistant';
+  message: {
+    id?: string;
+    type?: 'message';
+    role?: 'assistant';
+    model?: string;
+    content: ContentBlock[];
+    stop_reason?: string | null;
+    stop_sequence?: string | null;
+    usage?: TokenUsage;
+  };
+  parent_tool_use_id?: string | null;
+  session_id?: string;
+  uuid?: string;
+}
+
+export interface CLIUserOutput {
+  type: 'user';
+  message: {
+    role?: 'user';
+    content: string | ContentBlock[];
+  };
+  parent_tool_use_id?: string | null;
+  session_id?: string;
+  uuid?: string;
+}
+
+export interface CLISystemOutput {
+  type: 'system';
+  subtype?: string;
+  session_id?: string;
+  uuid?: string;
+  [key: string]: unknown;
+}
+
+export interface CLIResultOutput {
+  type: 'result';
+  subtype?: ResultSubtype;
+  is_error?: boolean;
+  result?: string;
+  session_id?: string;
+  duration_ms?: number;
+  duration_api_ms?: number;
+  num_turns?: number;
+  total_cost_usd?: number;
+  permission_denials?: PermissionDenial[];
+  usage?: TokenUsage;
+  uuid?: string;
+}
+
+export interface CLIStreamEventOutput {
+  type: 'stream_event';
+  event: StreamEvent;
+  parent_tool_use_id?: string | null;
+  session_id?: string;
+  uuid?: string;
+}
+
+export type CLIStreamMessage =
+  | CLIAssistantOutput
+  | CLIUserOutput
+  | CLISystemOutput
+  | CLIResultOutput
+  | CLIStreamEventOutput;
+
+// Control protocol: requests in either direction, answered by a
+// control_response carrying the same request_id
+export interface CLIControlRequest {
+  type: 'control_request';
+  request_id: string;
+  request: {
+    subtype: string;
+    [key: string]: unknown;
+  };
+}
+
+// Permission check sent by the CLI with --permission-prompt-tool stdio
+export interface CLICanUseToolRequest {
+  subtype: 'can_use_tool';
+  tool_name: string;
+  input: Record<string, unknown>;
+  permission_suggestions?: unknown[];
+  blocked_path?: string | null;
+  tool_use_id?: string;
+}
+
+// Hook invocation for a callback registered during initialize
+export interface CLIHookCallbackRequest {
+  subtype: 'hook_callback';
+  callback_id: string;
+  input: HookInputBase & { hook_event_name: HookEvent };
+  tool_use_id?: string;
+}
+
+// JSON-RPC message for an SDK MCP server, answered with { mcp_response }
+export interface CLIMcpMessageRequest {
+  subtype: 'mcp_message';
+  server_name: string;
+  message: JSONRPCMessage;
+}
+
+export interface JSONRPCMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+export interface CLIControlResponse {
+  type: 'control_response';
+  response:
+    | {
+        subtype: 'success';
+        request_id: string;
+        response?: Record<string, unknown>;
+      }
+    | {
+        subtype: 'error';
+        request_id: string;
+        error: string;
+      };
+}
+
+export type CLIOutput =
+  | CLIMessage
+  | CLIError
+  | CLIEnd
+  | CLIStreamMessage
+  | CLIControlRequest
+  | CLIControlResponse;
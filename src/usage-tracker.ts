@@ -0,0 +1,251 @@
+import { Conversation } from './conversation.js';
+import type { ResponseParser, UsageStats } from './parser.js';
+import { isSystemInitMessage, type Message } from './types.js';
+
+// Usage of one turn, from its result message
+export interface UsageRecord extends UsageStats {
+  // When the result arrived (ISO 8601)
+  at: string;
+  sessionId: string | null;
+  model: string | null;
+  tags: string[];
+}
+
+// Usage summed over a group of records
+export interface UsageSummary extends UsageStats {
+  // Number of result messages counted
+  queries: number;
+  // Share of input tokens that were read from the prompt cache (0 to 1)
+  cacheHitRatio: number;
+}
+
+export type UsageGroupBy = 'model' | 'session' | 'tag' | 'hour' | 'day';
+
+export interface UsageFilter {
+  // Only records at or after this time
+  since?: Date | string;
+  // Only records before this time
+  until?: Date | string;
+  // Only records with at least one of these tags
+  tags?: string[];
+}
+
+export interface TrackOptions {
+  // Labels to group usage by, e.g. project or customer names
+  tags?: string[];
+}
+
+// Group key of records without a model, session or tag
+const UNKNOWN = '(none)';
+
+const CSV_COLUMNS: Array<keyof UsageSummary> = [
+  'queries',
+  'inputTokens',
+  'outputTokens',
+  'cacheCreationTokens',
+  'cacheReadTokens',
+  'totalTokens',
+  'totalCost',
+  'cacheHitRatio'
+];
+
+/**
+ * Collects the usage of many queries and conversations for reporting
+ *
+ * Every result message of a tracked ResponseParser or Conversation becomes
+ * a UsageRecord with its session, model and tags. Summaries can be grouped
+ * by model, session, tag, hour or day and exported as JSON or CSV.
+ *
+ * @example
+ * ```typescript
+ * const usage = new UsageTracker();
+ *
+ * const text = await usage
+ *   .track(claude().query('Summarize the changelog'), { tags: ['docs'] })
+ *   .asText();
+ *
+ * await writeFile('usage.csv', usage.exportCSV('tag'));
+ * ```
+ */
+export class UsageTracker {
+  private records: UsageRecord[] = [];
+
+  /**
+   * Record the usage of a parser's query, or of every turn of a
+   * conversation. Track a parser before reading it.
+   *
+   * @returns the parser or conversation, for chaining
+   */
+  track<T extends ResponseParser | Conversation>(
+    source: T,
+    options: TrackOptions = {}
+  ): T {
+    const observe = this.observer(options.tags ?? []);
+    const target: ResponseParser | Conversation = source;
+    if (target instanceof Conversation) {
+      target.stream(observe);
+    } else {
+      target.onMessage(observe);
+    }
+    return source;
+  }
+
+  /**
+   * Records in the order their results arrived
+   */
+  getRecords(filter: UsageFilter = {}): UsageRecord[] {
+    const since = filter.since && new Date(filter.since).toISOString();
+    const until = filter.until && new Date(filter.until).toISOString();
+    return this.records.filter(
+      (record) =>
+        (!since || record.at >= since) &&
+        (!until || record.at < until) &&
+        (!filter.tags || record.tags.some((tag) => filter.tags!.includes(tag)))
+    );
+  }
+
+  /**
+   * Usage summed over all matching records
+   */
+  summary(filter: UsageFilter = {}): UsageSummary {
+    return summarize(this.getRecords(filter));
+  }
+
+  /**
+   * Usage summed per model, session, tag, hour or day (UTC), in key order
+   *
+   * A record with several tags counts towards each of them.
+   */
+  summarize(
+    groupBy: UsageGroupBy,
+    filter: UsageFilter = {}
+  ): Record<string, UsageSummary> {
+    const groups = new Map<string, UsageRecord[]>();
+    for (const record of this.getRecords(filter)) {
+      for (const key of groupKeys(record, groupBy)) {
+        const group = groups.get(key) ?? [];
+        group.push(record);
+        groups.set(key, group);
+      }
+    }
+
+    const summaries: Record<string, UsageSummary> = {};
+    for (const key of [...groups.keys()].sort()) {
+      summaries[key] = summarize(groups.get(key)!);
+    }
+    return summaries;
+  }
+
+  /**
+   * JSON report with the overall total and one summary per group
+   */
+  exportJSON(groupBy: UsageGroupBy, filter: UsageFilter = {}): string {
+    return JSON.stringify(
+      {
+        generatedAt: new Date().toISOString(),
+        groupBy,
+        total: this.summary(filter),
+        groups: this.summarize(groupBy, filter)
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * CSV report with a header row and one row per group
+   */
+  exportCSV(groupBy: UsageGroupBy, filter: UsageFilter = {}): string {
+    const rows = [[groupBy, ...CSV_COLUMNS].join(',')];
+    for (const [key, summary] of Object.entries(
+      this.summarize(groupBy, filter)
+    )) {
+      rows.push(
+        [csvField(key), ...CSV_COLUMNS.map((column) => summary[column])].join(
+          ','
+        )
+      );
+    }
+    return rows.join('\n') + '\n';
+  }
+
+  /**
+   * Forget all records
+   */
+  reset(): void {
+    this.records = [];
+  }
+
+  private observer(tags: string[]): (message: Message) => void {
+    // The model is announced by the init and assistant messages
+    let model: string | null = null;
+
+    return (message) => {
+      if (isSystemInitMessage(message)) {
+        model = message.model ?? model;
+      } else if (message.type === 'assistant') {
+        model = message.model ?? model;
+      } else if (message.type === 'result') {
+        const usage = message.usage ?? {};
+        this.records.push({
+          at: new Date().toISOString(),
+          sessionId: message.session_id ?? null,
+          model,
+          tags: [...tags],
+          inputTokens: usage.input_tokens ?? 0,
+          outputTokens: usage.output_tokens ?? 0,
+          cacheCreationTokens: usage.cache_creation_input_tokens ?? 0,
+          cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+          totalTokens: (usage.input_tokens ?? 0) + (usage.output_tokens ?? 0),
+          totalCost: message.cost?.total_cost ?? message.total_cost_usd ?? 0
+        });
+      }
+    };
+  }
+}
+
+function summarize(records: UsageRecord[]): UsageSummary {
+  const summary: UsageSummary = {
+    queries: records.length,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    totalTokens: 0,
+    totalCost: 0,
+    cacheHitRatio: 0
+  };
+  for (const record of records) {
+    summary.inputTokens += record.inputTokens;
+    summary.outputTokens += record.outputTokens;
+    summary.cacheCreationTokens += record.cacheCreationTokens;
+    summary.cacheReadTokens += record.cacheReadTokens;
+    summary.totalTokens += record.totalTokens;
+    summary.totalCost += record.totalCost;
+  }
+
+  // Cached tokens are reported separately from the uncached input tokens
+  const input =
+    summary.inputTokens + summary.cacheCreationTokens + summary.cacheReadTokens;
+  summary.cacheHitRatio = input > 0 ? summary.cacheReadTokens / input : 0;
+  return summary;
+}
+
+function groupKeys(record: UsageRecord, groupBy: UsageGroupBy): string[] {
+  switch (groupBy) {
+    case 'model':
+      return [record.model ?? UNKNOWN];
+    case 'session':
+      return [record.sessionId ?? UNKNOWN];
+    case 'tag':
+      return record.tags.length > 0 ? record.tags : [UNKNOWN];
+    case 'hour':
+      return [`${record.at.slice(0, 13)}:00Z`];
+    case 'day':
+      return [record.at.slice(0, 10)];
+  }
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,428 @@
+import {
+  SubprocessCLITransport,
+  createSubprocessTransport,
+  promptMessage
+} from './_internal/transport/subprocess-cli.js';
+import { isSdkMcpServer } from './mcp.js';
+import type {
+  ClaudeCodeOptions,
+  CLIOutput,
+  ProcessCompleteHandler,
+  PromptInput,
+  RawCLIMessage,
+  Transport,
+  TransportConfig,
+  TransportFactory,
+  UserMessage
+} from './types.js';
+
+export interface WarmProcessPoolOptions {
+  // Most idle processes kept at once; the least recently used go first
+  // (default 8)
+  maxIdle?: number;
+  // Kill processes that have been idle this long (default 5 minutes)
+  idleTimeoutMs?: number;
+}
+
+export interface WarmProcessPoolStats {
+  // Processes waiting to be leased
+  idle: number;
+  // Processes serving a query or conversation
+  leased: number;
+  // Processes started, by prewarm() or for a lease nothing idle could serve
+  spawned: number;
+  // Leases served by an idle process
+  reused: number;
+  // Idle processes killed for being idle too long, over maxIdle or dead
+  evicted: number;
+}
+
+// A CLI process that can serve several queries one after another
+interface PooledProcess {
+  transport: SubprocessCLITransport;
+  // Handlers of the query currently leasing the process
+  processCompleteHandlers: ProcessCompleteHandler[];
+}
+
+interface IdleProcess {
+  key: string;
+  process: PooledProcess;
+  timer: NodeJS.Timeout;
+}
+
+// What a PooledTransport needs from its pool
+interface Lender {
+  lease(key: string): PooledProcess | undefined;
+  adopt(process: PooledProcess): void;
+  giveBack(process: PooledProcess, key: string): void;
+  discard(process: PooledProcess): void;
+}
+
+/**
+ * Keeps Claude Code CLI processes running between queries so conversations
+ * don't pay for starting one (and finding the CLI) every time
+ *
+ * Processes run in streaming input mode and are keyed by everything they
+ * are started with (executable, arguments such as the model, cwd and
+ * environment). A query leases an idle process with the same key or starts
+ * a new one, and gives it back when its turn is over: after the result
+ * message, or when a keepAlive conversation ends. A process given back
+ * carries its session, so it serves the next query that resumes that
+ * session; prewarm() starts processes for new conversations in advance.
+ * Processes are checked with isActive() before they are leased and killed
+ * once idle for idleTimeoutMs.
+ *
+ * Queries with hooks or in-process MCP servers always get a fresh process.
+ *
+ * @example
+ * ```typescript
+ * const pool = new WarmProcessPool({ idleTimeoutMs: 60_000 });
+ * const builder = claude().withModel('sonnet').withProcessPool(pool);
+ * await pool.prewarm(builder.asConversation().getOptions(), 2);
+ *
+ * // Later, per request: no CLI startup on the way
+ * const answer = await builder.asConversation().query(prompt).asText();
+ *
+ * await pool.shutdown();
+ * ```
+ */
+export class WarmProcessPool {
+  /**
+   * Transport factory that leases from this pool, for
+   * QueryBuilder.withTransport() or the `transport` option
+   */
+  readonly transport: TransportFactory = (config) =>
+    this.createTransport(config);
+
+  private readonly maxIdle: number;
+  private readonly idleTimeoutMs: number;
+  // Oldest first
+  private idle: IdleProcess[] = [];
+  private leased = new Set<PooledProcess>();
+  // Idle processes prewarm() keeps ready per key
+  private targets = new Map<
+    string,
+    { options: ClaudeCodeOptions; count: number }
+  >();
+  private warming = new Map<string, number>();
+  private spawned = 0;
+  private reused = 0;
+  private evicted = 0;
+  private closed = false;
+
+  constructor(options: WarmProcessPoolOptions = {}) {
+    this.maxIdle = options.maxIdle ?? 8;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 5 * 60 * 1000;
+  }
+
+  /**
+   * Start processes for new conversations with these options and keep
+   * `count` of them idle, starting replacements as they are leased
+   */
+  async prewarm(options: ClaudeCodeOptions, count: number = 1): Promise<void> {
+    const key = pooledProcess('', options).transport.processKey();
+    this.targets.set(key, { options, count });
+    await this.refill(key);
+  }
+
+  getStats(): WarmProcessPoolStats {
+    return {
+      idle: this.idle.length,
+      leased: this.leased.size,
+      spawned: this.spawned,
+      reused: this.reused,
+      evicted: this.evicted
+    };
+  }
+
+  /**
+   * Kill every idle process and stop keeping any. Leased processes stay
+   * with their conversations and are killed when given back.
+   */
+  async shutdown(): Promise<void> {
+    this.closed = true;
+    this.targets.clear();
+    await Promise.all([...this.idle].map((entry) => this.evict(entry)));
+  }
+
+  private createTransport(config: TransportConfig): Transport {
+    const pooled =
+      !this.closed && config.streamingMode && !needsOwnProcess(config);
+    if (!pooled) return createSubprocessTransport(config);
+
+    return new PooledTransport(config, {
+      lease: (key) => this.lease(key),
+      adopt: (process) => {
+        this.spawned++;
+        this.leased.add(process);
+      },
+      giveBack: (process, key) => this.giveBack(process, key),
+      discard: (process) => {
+        this.leased.delete(process);
+      }
+    });
+  }
+
+  private lease(key: string): PooledProcess | undefined {
+    // Most recently used first
+    for (const entry of [...this.idle].reverse()) {
+      if (entry.key !== key) continue;
+
+      if (!entry.process.transport.isActive()) {
+        void this.evict(entry);
+        continue;
+      }
+
+      this.removeIdle(entry);
+      this.leased.add(entry.process);
+      this.reused++;
+      this.refill(key).catch(() => {
+        // Warming up is best effort; a lease that finds nothing spawns
+      });
+      return entry.process;
+    }
+    return undefined;
+  }
+
+  private giveBack(process: PooledProcess, key: string): void {
+    this.leased.delete(process);
+    process.processCompleteHandlers.length = 0;
+
+    if (this.closed || !process.transport.isActive()) {
+      void process.transport.kill().catch(() => {});
+      return;
+    }
+
+    const entry: IdleProcess = {
+      key,
+      process,
+      timer: setTimeout(() => void this.evict(entry), this.idleTimeoutMs)
+    };
+    entry.timer.unref?.();
+    this.idle.push(entry);
+
+    while (this.idle.length > this.maxIdle) {
+      void this.evict(this.idle[0]!);
+    }
+  }
+
+  private async refill(key: string): Promise<void> {
+    const target = this.targets.get(key);
+    if (!target) return;
+
+    const ready =
+      this.idle.filter((entry) => entry.key === key).length +
+      (this.warming.get(key) ?? 0);
+    const starts: Promise<void>[] = [];
+    for (let i = ready; i < target.count; i++) {
+      starts.push(this.warm(key, target.options));
+    }
+    await Promise.all(starts);
+  }
+
+  private async warm(key: string, options: ClaudeCodeOptions): Promise<void> {
+    const process = pooledProcess('', options);
+    this.warming.set(key, (this.warming.get(key) ?? 0) + 1);
+    try {
+      await process.transport.spawn();
+      this.spawned++;
+    } finally {
+      this.warming.set(key, this.warming.get(key)! - 1);
+    }
+    this.leased.add(process);
+    this.giveBack(process, key);
+  }
+
+  private async evict(entry: IdleProcess): Promise<void> {
+    if (!this.removeIdle(entry)) return;
+    this.evicted++;
+    await entry.process.transport.kill().catch(() => {});
+  }
+
+  private removeIdle(entry: IdleProcess): boolean {
+    const index = this.idle.indexOf(entry);
+    if (index === -1) return false;
+    this.idle.splice(index, 1);
+    clearTimeout(entry.timer);
+    return true;
+  }
+}
+
+// Hooks are registered by an initialize request written when the process
+// starts, and the tools of in-process MCP servers are answered by the query
+// that lists them, so neither can be handed to another query
+function needsOwnProcess(config: TransportConfig): boolean {
+  return (
+    (config.initialMessages?.length ?? 0) > 0 ||
+    Object.values(config.options.mcpServers ?? {}).some(isSdkMcpServer)
+  );
+}
+
+// A streaming input process that stays open between turns; the transport
+// that leases it decides when the query is over
+function pooledProcess(
+  prompt: PromptInput,
+  options: ClaudeCodeOptions
+): PooledProcess {
+  const processCompleteHandlers: ProcessCompleteHandler[] = [];
+  return {
+    transport: new SubprocessCLITransport(
+      prompt,
+      options,
+      true,
+      true,
+      processCompleteHandlers
+    ),
+    processCompleteHandlers
+  };
+}
+
+/**
+ * Transport for one query that runs on a leased process and gives it back
+ * to the pool once no turn is in progress
+ */
+class PooledTransport implements Transport {
+  private process?: PooledProcess;
+  private pendingTurns = 0;
+  private sessionId?: string;
+  private done = false;
+
+  constructor(
+    private readonly config: TransportConfig,
+    private readonly lender: Lender
+  ) {}
+
+  async connect(): Promise<void> {
+    const fresh = pooledProcess(this.config.prompt, this.config.options);
+    const leased = this.lender.lease(fresh.transport.processKey());
+    this.pendingTurns = 1;
+
+    if (leased) {
+      this.process = leased;
+      leased.processCompleteHandlers.push(
+        ...this.config.processCompleteHandlers
+      );
+      leased.transport.writeMessage(promptMessage(this.config.prompt));
+      return;
+    }
+
+    this.process = fresh;
+    fresh.processCompleteHandlers.push(...this.config.processCompleteHandlers);
+    this.lender.adopt(fresh);
+    try {
+      await fresh.transport.connect();
+    } catch (error) {
+      this.done = true;
+      this.lender.discard(fresh);
+      throw error;
+    }
+  }
+
+  async *receiveMessages(): AsyncGenerator<CLIOutput> {
+    const transport = this.connected();
+    try {
+      for await (const output of transport.receiveMessages()) {
+        const raw = output as RawCLIMessage;
+        if (typeof raw.session_id === 'string') this.sessionId = raw.session_id;
+        yield output;
+
+        if (raw.type === 'result') {
+          this.pendingTurns = Math.max(0, this.pendingTurns - 1);
+          // Without keepAlive the query ends with its result, as it would
+          // when the CLI exits
+          if (!this.config.keepAlive && this.pendingTurns === 0) {
+            this.giveBack();
+            return;
+          }
+        }
+      }
+    } finally {
+      // The process exited or failed while leased
+      if (!this.done && !transport.isActive()) {
+        this.done = true;
+        this.lender.discard(this.process!);
+      }
+    }
+  }
+
+  writeToStdin(userMessage: UserMessage): void {
+    this.connected().writeToStdin(userMessage);
+    this.pendingTurns++;
+  }
+
+  writeMessage(message: RawCLIMessage): void {
+    this.connected().writeMessage(message);
+  }
+
+  closeStdin(): void {
+    // An idle process is given back by the disconnect() that follows, and
+    // one given back may serve another query by now
+    if (this.done || this.isIdle()) return;
+    this.process?.transport.closeStdin();
+  }
+
+  async terminate(): Promise<void> {
+    if (this.isIdle()) {
+      this.giveBack();
+      return;
+    }
+    await this.end((transport) => transport.terminate());
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.isIdle()) {
+      this.giveBack();
+      return;
+    }
+    await this.end((transport) => transport.disconnect());
+  }
+
+  async kill(): Promise<void> {
+    await this.end((transport) => transport.kill());
+  }
+
+  isActive(): boolean {
+    return !this.done && !!this.process?.transport.isActive();
+  }
+
+  getStderr(): string {
+    return this.process?.transport.getStderr() ?? '';
+  }
+
+  private connected(): SubprocessCLITransport {
+    if (!this.process || this.done) {
+      throw new Error('No active process');
+    }
+    return this.process.transport;
+  }
+
+  private isIdle(): boolean {
+    return this.isActive() && this.pendingTurns === 0;
+  }
+
+  // Pool the process under the session it now holds, so the next query
+  // resuming that session gets it
+  private giveBack(): void {
+    if (this.done || !this.process) return;
+    this.done = true;
+    // A keepAlive query is still reading; its conversation is over
+    this.process.transport.detachReader();
+
+    const key = pooledProcess('', {
+      ...this.config.options,
+      sessionId: this.sessionId ?? this.config.options.sessionId,
+      forkSession: false
+    }).transport.processKey();
+    this.lender.giveBack(this.process, key);
+  }
+
+  // Stop using the process for good
+  private async end(
+    stop: (transport: SubprocessCLITransport) => Promise<void>
+  ): Promise<void> {
+    if (this.done || !this.process) return;
+    this.done = true;
+    this.lender.discard(this.process);
+    await stop(this.process.transport);
+  }
+}
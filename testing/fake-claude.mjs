@@ -0,0 +1,567 @@
+#!/usr/bin/env node
+/**
+ * Fake Claude Code CLI
+ *
+ * A scriptable stand-in for the `claude` binary that speaks the same
+ * `--output-format stream-json` / `--input-format stream-json` protocol the
+ * SDK targets. Point `withExecutable()` at this file and describe what it
+ * should do with the FAKE_CLAUDE_SCENARIO environment variable, which holds
+ * either a path to a JSON scenario file or the scenario JSON itself.
+ *
+ * Without a scenario every user message is echoed back as
+ * "Echo: <prompt>" followed by a success result.
+ *
+ * See `FakeClaudeScenario` in src/testing.ts for the scenario format.
+ */
+
+import { readFileSync, appendFileSync } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+
+const argv = process.argv.slice(2);
+
+function loadScenario() {
+  const source = process.env.FAKE_CLAUDE_SCENARIO;
+  if (!source) return {};
+  const json = source.trim().startsWith('{')
+    ? source
+    : readFileSync(source, 'utf8');
+  return JSON.parse(json);
+}
+
+function flagValue(name) {
+  const index = argv.indexOf(name);
+  return index === -1 ? undefined : argv[index + 1];
+}
+
+function log(event) {
+  if (process.env.FAKE_CLAUDE_LOG) {
+    appendFileSync(process.env.FAKE_CLAUDE_LOG, JSON.stringify(event) + '\n');
+  }
+}
+
+const scenario = loadScenario();
+const resumedSessionId = flagValue('--resume');
+const sessionId =
+  scenario.sessionId ??
+  (resumedSessionId && argv.includes('--fork-session')
+    ? `${resumedSessionId}-fork-${randomUUID().slice(0, 8)}`
+    : resumedSessionId) ??
+  'fake-session-id';
+const turns =
+  flagValue('--resume') && scenario.resumeTurns
+    ? scenario.resumeTurns
+    : scenario.turns;
+const streamingInput = flagValue('--input-format') === 'stream-json';
+const partialMessages = argv.includes('--include-partial-messages');
+const permissionPrompt = flagValue('--permission-prompt-tool') === 'stdio';
+// Changed by set_model and set_permission_mode control requests
+let currentModel = flagValue('--model') ?? 'claude-fake';
+let currentPermissionMode = flagValue('--permission-mode') ?? 'default';
+
+if (argv.includes('--version')) {
+  process.stdout.write(`${scenario.version ?? '1.0.0 (Claude Code)'}\n`);
+  process.exit(0);
+}
+
+if (argv.includes('--help')) {
+  process.stdout.write(
+    scenario.help ??
+      [
+        'Usage: claude [options] [command] [prompt]',
+        '',
+        'Options:',
+        '  -p, --print                 Print response and exit',
+        '  --output-format <format>    Output format (only works with --print):',
+        '                              "text" (default), "json", or "stream-json"',
+        '  --input-format <format>     Input format (only works with --print):',
+        '                              "text" (default), or "stream-json"',
+        '  -h, --help                  Display help for command',
+        ''
+      ].join('\n')
+  );
+  process.exit(0);
+}
+
+log({ event: 'start', argv });
+
+// Aborted by an interrupt control request to end the current turn early
+let turnAbort = new AbortController();
+
+// Resolves after `ms`, or as soon as `signal` aborts
+const sleep = (ms, signal) =>
+  new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+function emit(message) {
+  const withSession = { session_id: sessionId, ...message };
+  process.stdout.write(JSON.stringify(withSession) + '\n');
+}
+
+function textOf(content) {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .filter((block) => block && block.type === 'text')
+    .map((block) => block.text)
+    .join(' ');
+}
+
+// Stream events the API would send while generating `text`
+function emitTextDeltas(text) {
+  const streamEvent = (event) =>
+    emit({ type: 'stream_event', event, parent_tool_use_id: null });
+
+  streamEvent({
+    type: 'message_start',
+    message: { id: `msg_fake_${turnIndex}`, model: 'claude-fake' }
+  });
+  streamEvent({
+    type: 'content_block_start',
+    index: 0,
+    content_block: { type: 'text', text: '' }
+  });
+  for (const word of text.match(/\S+\s*/g) ?? []) {
+    streamEvent({
+      type: 'content_block_delta',
+      index: 0,
+      delta: { type: 'text_delta', text: word }
+    });
+  }
+  streamEvent({ type: 'content_block_stop', index: 0 });
+  streamEvent({
+    type: 'message_delta',
+    delta: { stop_reason: 'end_turn', stop_sequence: null },
+    usage: { output_tokens: 1 }
+  });
+  streamEvent({ type: 'message_stop' });
+}
+
+// Control requests sent to the SDK, by request_id
+const pendingControl = new Map();
+let controlCounter = 0;
+
+function controlRequest(request) {
+  const requestId = `fake_req_${++controlCounter}`;
+  return new Promise((resolve) => {
+    pendingControl.set(requestId, resolve);
+    process.stdout.write(
+      JSON.stringify({
+        type: 'control_request',
+        request_id: requestId,
+        request
+      }) + '\n'
+    );
+  });
+}
+
+// Hooks registered by the SDK's initialize request, by event
+let registeredHooks = {};
+
+// Invoke every SDK hook registered for `event` and return their outputs
+async function runHooks(event, input, toolName) {
+  const outputs = [];
+  for (const { matcher, hookCallbackIds } of registeredHooks[event] ?? []) {
+    if (matcher && toolName && !new RegExp(`^(${matcher})$`).test(toolName)) {
+      continue;
+    }
+    for (const callbackId of hookCallbackIds) {
+      const response = await controlRequest({
+        subtype: 'hook_callback',
+        callback_id: callbackId,
+        input: {
+          session_id: sessionId,
+          transcript_path: '/tmp/fake-claude-transcript.jsonl',
+          cwd: process.cwd(),
+          hook_event_name: event,
+          ...input
+        },
+        tool_use_id: input.tool_use_id
+      });
+      const output =
+        response.subtype === 'success' ? response.response : undefined;
+      log({
+        event: 'hook',
+        hook: event,
+        callbackId,
+        output,
+        error: response.error
+      });
+      if (output) outputs.push(output);
+    }
+  }
+  return outputs;
+}
+
+// In-process MCP servers from --mcp-config, reached through mcp_message
+// control requests
+const sdkMcpServers = Object.entries(
+  JSON.parse(flagValue('--mcp-config') ?? '{}').mcpServers ?? {}
+)
+  .filter(([, server]) => server.type === 'sdk')
+  .map(([name]) => name);
+// mcp__<server>__<tool> names discovered with tools/list
+const sdkMcpTools = new Map();
+let mcpCounter = 0;
+
+async function mcpRequest(serverName, method, params) {
+  const response = await controlRequest({
+    subtype: 'mcp_message',
+    server_name: serverName,
+    message: { jsonrpc: '2.0', id: ++mcpCounter, method, params }
+  });
+  log({ event: 'mcp', server: serverName, method, response });
+  return response.subtype === 'success'
+    ? response.response.mcp_response
+    : { error: { message: response.error } };
+}
+
+async function connectSdkMcpServers() {
+  for (const serverName of sdkMcpServers) {
+    await mcpRequest(serverName, 'initialize', {
+      protocolVersion: '2024-11-05',
+      capabilities: {},
+      clientInfo: { name: 'fake-claude', version: '1.0.0' }
+    });
+    await mcpRequest(serverName, 'notifications/initialized');
+    const listed = await mcpRequest(serverName, 'tools/list', {});
+    for (const tool of listed.result?.tools ?? []) {
+      sdkMcpTools.set(`mcp__${serverName}__${tool.name}`, {
+        serverName,
+        toolName: tool.name
+      });
+    }
+  }
+}
+
+// Tool result of an SDK MCP tool call
+async function callSdkMcpTool({ serverName, toolName }, input) {
+  const response = await mcpRequest(serverName, 'tools/call', {
+    name: toolName,
+    arguments: input
+  });
+  if (response.error) {
+    return { content: response.error.message, isError: true };
+  }
+  return {
+    content: response.result.content,
+    isError: response.result.isError ?? false
+  };
+}
+
+let toolUseCounter = 0;
+
+async function runToolUse({ name, input: toolInput = {}, id }) {
+  let input = toolInput;
+  const toolUseId = id ?? `toolu_fake_${++toolUseCounter}`;
+  emit({
+    type: 'assistant',
+    message: {
+      id: `msg_fake_tool_${toolUseCounter}`,
+      type: 'message',
+      role: 'assistant',
+      model: currentModel,
+      content: [{ type: 'tool_use', id: toolUseId, name, input }],
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 1, output_tokens: 1 }
+    },
+    parent_tool_use_id: null
+  });
+
+  let decision = { behavior: 'allow', updatedInput: input };
+  let needsPermission = permissionPrompt;
+  const preToolUse = await runHooks(
+    'PreToolUse',
+    { tool_name: name, tool_input: input, tool_use_id: toolUseId },
+    name
+  );
+  for (const output of preToolUse) {
+    const specific = output.hookSpecificOutput ?? {};
+    if (specific.updatedInput) {
+      input = specific.updatedInput;
+      decision = { behavior: 'allow', updatedInput: input };
+    }
+    if (specific.permissionDecision === 'deny') {
+      decision = {
+        behavior: 'deny',
+        message: specific.permissionDecisionReason ?? 'Blocked by hook'
+      };
+      needsPermission = false;
+      break;
+    }
+    if (specific.permissionDecision === 'allow') needsPermission = false;
+  }
+
+  if (needsPermission) {
+    const response = await controlRequest({
+      subtype: 'can_use_tool',
+      tool_name: name,
+      input,
+      permission_suggestions: [],
+      blocked_path: null,
+      tool_use_id: toolUseId
+    });
+    decision =
+      response.subtype === 'success'
+        ? response.response
+        : { behavior: 'deny', message: response.error };
+    log({ event: 'permission', tool: name, decision });
+  }
+
+  let allowed = decision.behavior === 'allow';
+  let content = allowed
+    ? `Ran ${name} with ${JSON.stringify(decision.updatedInput)}`
+    : decision.message;
+  const sdkMcpTool = sdkMcpTools.get(name);
+  if (allowed && sdkMcpTool) {
+    const output = await callSdkMcpTool(sdkMcpTool, decision.updatedInput);
+    content = output.content;
+    allowed = !output.isError;
+  }
+  if (allowed) {
+    await runHooks(
+      'PostToolUse',
+      {
+        tool_name: name,
+        tool_input: decision.updatedInput,
+        tool_response: { ok: true },
+        tool_use_id: toolUseId
+      },
+      name
+    );
+  }
+  emit({
+    type: 'user',
+    message: {
+      role: 'user',
+      content: [
+        {
+          type: 'tool_result',
+          tool_use_id: toolUseId,
+          content,
+          is_error: !allowed
+        }
+      ]
+    },
+    parent_tool_use_id: null
+  });
+}
+
+function echoTurn(prompt) {
+  return [{ text: `Echo: ${prompt}` }, { result: `Echo: ${prompt}` }];
+}
+
+let initSent = false;
+let turnIndex = 0;
+
+async function sendInit() {
+  if (initSent) return;
+  initSent = true;
+  await connectSdkMcpServers();
+  if (scenario.init === false) return;
+  emit({
+    type: 'system',
+    subtype: 'init',
+    cwd: process.cwd(),
+    model: currentModel,
+    tools: [
+      ...(scenario.tools ?? ['Read', 'Write', 'Bash']),
+      ...sdkMcpTools.keys()
+    ],
+    mcp_servers: sdkMcpServers.map((name) => ({ name, status: 'connected' })),
+    permissionMode: currentPermissionMode,
+    apiKeySource: 'none'
+  });
+}
+
+async function runStep(step) {
+  if (step.delayMs) await sleep(step.delayMs, turnAbort.signal);
+  if (turnAbort.signal.aborted) return;
+  if (step.spawnChild) {
+    const child = spawn(
+      process.execPath,
+      ['-e', 'setInterval(() => {}, 1000)'],
+      {
+        stdio: 'ignore'
+      }
+    );
+    log({ event: 'child', pid: child.pid });
+  }
+  if (step.stderr !== undefined) process.stderr.write(step.stderr);
+  if (step.stdout !== undefined) process.stdout.write(step.stdout);
+  if (step.message !== undefined) emit(step.message);
+  if (step.toolUse !== undefined) await runToolUse(step.toolUse);
+  if (step.text !== undefined) {
+    if (partialMessages) emitTextDeltas(step.text);
+    emit({
+      type: 'assistant',
+      message: {
+        id: `msg_fake_${turnIndex}`,
+        type: 'message',
+        role: 'assistant',
+        model: currentModel,
+        content: [{ type: 'text', text: step.text }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 1, output_tokens: 1 }
+      },
+      parent_tool_use_id: null
+    });
+  }
+  if (step.result !== undefined) {
+    const stop = await runHooks('Stop', { stop_hook_active: false });
+    const blocked = stop.find((output) => output.decision === 'block');
+    if (blocked) await runStep({ text: `Continuing: ${blocked.reason}` });
+    emit({
+      type: 'result',
+      subtype: 'success',
+      is_error: false,
+      duration_ms: 1,
+      duration_api_ms: 1,
+      num_turns: turnIndex + 1,
+      result: step.result,
+      total_cost_usd: 0,
+      usage: { input_tokens: 1, output_tokens: 1 }
+    });
+  }
+  if (step.exit !== undefined) {
+    log({ event: 'exit', code: step.exit });
+    process.exit(step.exit);
+  }
+}
+
+async function runTurn(prompt) {
+  turnAbort = new AbortController();
+  await sendInit();
+  const submit = await runHooks('UserPromptSubmit', { prompt });
+  const blocked = submit.find((output) => output.decision === 'block');
+  const steps = blocked
+    ? [{ result: `Prompt blocked: ${blocked.reason}` }]
+    : (turns?.[turnIndex] ?? echoTurn(prompt));
+  for (const step of steps) {
+    if (turnAbort.signal.aborted) break;
+    await runStep(step);
+  }
+  if (turnAbort.signal.aborted) {
+    emit({
+      type: 'user',
+      message: {
+        role: 'user',
+        content: [{ type: 'text', text: '[Request interrupted by user]' }]
+      },
+      parent_tool_use_id: null
+    });
+    emit({
+      type: 'result',
+      subtype: 'error_during_execution',
+      is_error: true,
+      duration_ms: 1,
+      duration_api_ms: 1,
+      num_turns: turnIndex + 1,
+      total_cost_usd: 0,
+      usage: { input_tokens: 1, output_tokens: 0 }
+    });
+  }
+  turnIndex++;
+}
+
+function finish() {
+  const code = scenario.exitCode ?? 0;
+  log({ event: 'exit', code });
+  process.exit(code);
+}
+
+async function main() {
+  if (scenario.stallMs) await sleep(scenario.stallMs);
+
+  if (!streamingInput) {
+    // Text mode: the whole prompt arrives on stdin, then stdin closes
+    let prompt = '';
+    process.stdin.setEncoding('utf8');
+    for await (const chunk of process.stdin) prompt += chunk;
+    log({ event: 'stdin', data: prompt });
+    await runTurn(prompt.trim());
+    finish();
+    return;
+  }
+
+  // Streaming mode: one JSON message per line, processed in order
+  const rl = createInterface({ input: process.stdin, crlfDelay: Infinity });
+  let queue = Promise.resolve();
+
+  rl.on('line', (line) => {
+    if (!line.trim()) return;
+    log({ event: 'stdin', data: line });
+    const message = JSON.parse(line);
+
+    if (message.type === 'control_response') {
+      const resolve = pendingControl.get(message.response?.request_id);
+      pendingControl.delete(message.response?.request_id);
+      resolve?.(message.response);
+      return;
+    }
+
+    if (message.type === 'control_request') {
+      const subtype = message.request?.subtype;
+      if (scenario.ignoredControlRequests?.includes(subtype)) {
+        log({ event: 'ignored', subtype });
+        return;
+      }
+      if (scenario.unsupportedControlRequests?.includes(subtype)) {
+        emit({
+          type: 'control_response',
+          response: {
+            subtype: 'error',
+            request_id: message.request_id,
+            error: `Unsupported control request subtype: ${subtype}`
+          }
+        });
+        return;
+      }
+      if (subtype === 'set_model') {
+        currentModel = message.request.model ?? 'claude-fake';
+      }
+      if (subtype === 'set_permission_mode') {
+        currentPermissionMode = message.request.mode;
+      }
+      if (message.request?.subtype === 'initialize') {
+        registeredHooks = message.request.hooks ?? {};
+      }
+      if (message.request?.subtype === 'interrupt') {
+        log({ event: 'interrupt' });
+        turnAbort.abort();
+      }
+      emit({
+        type: 'control_response',
+        response: {
+          subtype: 'success',
+          request_id: message.request_id,
+          response: {}
+        }
+      });
+      return;
+    }
+
+    if (message.type === 'user') {
+      queue = queue.then(() => runTurn(textOf(message.message?.content)));
+    }
+  });
+
+  rl.on('close', () => {
+    queue.then(finish);
+  });
+}
+
+main().catch((error) => {
+  process.stderr.write(`fake-claude: ${error.stack ?? error}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { NullLogger } from '../src/logger.js';
+import type { FakeClaudeStep } from '../src/testing.js';
+import { BudgetExceededError } from '../src/errors.js';
+import { BudgetTracker } from '../src/_internal/budget.js';
+import type { Message } from '../src/types.js';
+import { useFakeCLI } from './helpers/fake-cli.js';
+
+class WarningLogger extends NullLogger {
+  warnings: string[] = [];
+
+  warn(message: string): void {
+    this.warnings.push(message);
+  }
+}
+
+const assistant = (id: string, input: number, output: number) => ({
+  message: {
+    type: 'assistant',
+    message: {
+      id,
+      type: 'message',
+      role: 'assistant',
+      content: [{ type: 'text', text: 'Working' }],
+      usage: { input_tokens: input, output_tokens: output }
+    }
+  }
+});
+
+const result = (cost: number, input: number, output: number) => ({
+  message: {
+    type: 'result',
+    subtype: 'success',
+    is_error: false,
+    result: 'Done',
+    total_cost_usd: cost,
+    usage: { input_tokens: input, output_tokens: output }
+  }
+});
+
+describe('Budgets', () => {
+  const cli = useFakeCLI('budget');
+
+  it('should sum the cost of queries, warn and refuse to start once used up', async () => {
+    const logger = new WarningLogger();
+    const builder = cli
+      .fake({ turns: [[{ text: 'Done' }, result(0.3, 10, 10)]] })
+      .withLogger(logger)
+      .withBudget({ maxCostUsd: 0.5 });
+
+    await builder.query('First').asText();
+    expect(logger.warnings).toEqual([]);
+
+    // The turn that goes over still completes
+    expect(await builder.query('Second').asText()).toBe('Done');
+    expect(logger.warnings).toEqual([
+      '80% of budget used',
+      'Budget exceeded: $0.6000 of $0.5'
+    ]);
+
+    const error = await builder
+      .query('Third')
+      .asText()
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.usage.totalCost).toBeCloseTo(0.6);
+    expect(error.usage.totalTokens).toBe(40);
+    expect(error.budget).toEqual({ maxCostUsd: 0.5 });
+
+    const starts = (await cli.readLog()).filter(
+      (entry) => entry.event === 'start'
+    );
+    expect(starts).toHaveLength(2);
+  });
+
+  it('should stop a query that runs over the token budget mid-turn', async () => {
+    const turn: FakeClaudeStep[] = [
+      assistant('msg_1', 50, 20),
+      assistant('msg_2', 60, 20),
+      { delayMs: 30000 },
+      result(0.1, 110, 40)
+    ];
+
+    const messages: string[] = [];
+    const started = Date.now();
+    const error = await cli
+      .fake({ turns: [turn] })
+      .withBudget({ maxTokens: 100 })
+      .query('Go')
+      .stream(async (message) => {
+        messages.push(message.type);
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.message).toBe('Budget exceeded: 150 of 100 tokens');
+    expect(error.usage.inputTokens).toBe(110);
+    expect(messages).not.toContain('result');
+    expect(Date.now() - started).toBeLessThan(10000);
+  });
+
+  it('should end a conversation that runs over its budget, forks included', async () => {
+    const conversation = cli
+      .fake({
+        turns: [
+          [assistant('msg_1', 200, 10), { delayMs: 30000 }, result(0, 0, 0)]
+        ]
+      })
+      .asConversation()
+      .withBudget({ maxTokens: 100 });
+
+    try {
+      const started = Date.now();
+      const error = await conversation
+        .query('First')
+        .asText()
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(BudgetExceededError);
+      expect(error.usage.totalTokens).toBe(210);
+      expect(Date.now() - started).toBeLessThan(10000);
+
+      expect(() => conversation.query('Second')).toThrow(BudgetExceededError);
+      expect(() => conversation.fork().query('Third')).toThrow(
+        BudgetExceededError
+      );
+    } finally {
+      await conversation.dispose();
+    }
+  });
+
+  it('should keep the turns of concurrent queries apart', () => {
+    const tracker = new BudgetTracker({ maxTokens: 100 });
+    const first = {};
+    const second = {};
+    const call = (id: string, input: number, output: number): Message => ({
+      type: 'assistant',
+      id,
+      content: [],
+      usage: { input_tokens: input, output_tokens: output }
+    });
+
+    expect(tracker.record(call('msg_1', 40, 10), first)).toBeUndefined();
+    expect(tracker.record(call('msg_1', 30, 10), second)).toBeUndefined();
+    expect(tracker.usage.totalTokens).toBe(90);
+
+    // The second query finishing leaves the first one's turn counted
+    tracker.record(
+      {
+        type: 'result',
+        subtype: 'success',
+        content: 'Done',
+        usage: { input_tokens: 30, output_tokens: 10 }
+      },
+      second
+    );
+    expect(tracker.usage.totalTokens).toBe(90);
+
+    const exceeded = tracker.record(call('msg_2', 20, 10), first);
+    expect(exceeded).toBeInstanceOf(BudgetExceededError);
+    expect(exceeded!.usage.totalTokens).toBe(120);
+  });
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { InternalClient } from '../src/_internal/client.js';
 import { SubprocessCLITransport } from '../src/_internal/transport/subprocess-cli.js';
-import { ClaudeSDKError } from '../src/errors.js';
+import { ClaudeSDKError, MaxTurnsExceededError } from '../src/errors.js';
+import { isSystemInitMessage } from '../src/types.js';
 import type { Message, CLIOutput } from '../src/types.js';
 
 vi.mock('../src/_internal/transport/subprocess-cli.js');
@@ -69,6 +70,141 @@ describe('InternalClient', () => {
       });
     });
 
+    it('should use a custom transport factory from options', async () => {
+      const customTransport = {
+        connect: vi.fn(),
+        disconnect: vi.fn(),
+        closeStdin: vi.fn(),
+        terminate: vi.fn(),
+        writeToStdin: vi.fn(),
+        writeMessage: vi.fn(),
+        isActive: vi.fn().mockReturnValue(false),
+        receiveMessages: vi.fn().mockImplementation(async function* () {
+          yield {
+            type: 'assistant',
+            message: { content: [{ type: 'text', text: 'From fake' }] }
+          };
+        })
+      };
+      const factory = vi.fn().mockReturnValue(customTransport);
+
+      const client = new InternalClient('test prompt', { transport: factory });
+      const results: Message[] = [];
+
+      for await (const message of client.processQuery()) {
+        results.push(message);
+      }
+
+      expect(SubprocessCLITransport).not.toHaveBeenCalled();
+      expect(factory).toHaveBeenCalledWith(
+        expect.objectContaining({
+          prompt: 'test prompt',
+          streamingMode: false,
+          keepAlive: false
+        })
+      );
+      expect(customTransport.connect).toHaveBeenCalledTimes(1);
+      expect(customTransport.disconnect).toHaveBeenCalledTimes(1);
+      expect(client.getTransport()).toBe(customTransport);
+      expect(results).toEqual([
+        expect.objectContaining({
+          type: 'assistant',
+          content: [{ type: 'text', text: 'From fake' }]
+        })
+      ]);
+    });
+
+    it('should keep envelope fields and the raw stream-json message', async () => {
+      const init = {
+        type: 'system',
+        subtype: 'init',
+        session_id: 'session-1',
+        cwd: '/repo',
+        model: 'claude-sonnet',
+        tools: ['Read', 'Bash'],
+        mcp_servers: [{ name: 'db', status: 'connected' }],
+        permissionMode: 'acceptEdits'
+      };
+      const assistant = {
+        type: 'assistant',
+        message: {
+          id: 'msg_1',
+          type: 'message',
+          role: 'assistant',
+          model: 'claude-sonnet',
+          content: [{ type: 'text', text: 'Hi' }],
+          stop_reason: 'end_turn',
+          usage: { input_tokens: 3, output_tokens: 2 }
+        },
+        parent_tool_use_id: null,
+        session_id: 'session-1'
+      };
+      const result = {
+        type: 'result',
+        subtype: 'error_max_turns',
+        is_error: true,
+        duration_ms: 1200,
+        duration_api_ms: 900,
+        num_turns: 3,
+        total_cost_usd: 0.02,
+        permission_denials: [
+          {
+            tool_name: 'Bash',
+            tool_use_id: 't1',
+            tool_input: { command: 'ls' }
+          }
+        ],
+        session_id: 'session-1'
+      };
+
+      mockTransport.receiveMessages.mockImplementation(async function* () {
+        yield init;
+        yield assistant;
+        yield result;
+      });
+
+      const results: Message[] = [];
+      const consume = async () => {
+        const client = new InternalClient('prompt');
+        for await (const message of client.processQuery()) {
+          results.push(message);
+        }
+      };
+
+      // The error result is yielded before the query fails with it
+      await expect(consume()).rejects.toThrow(MaxTurnsExceededError);
+      expect(results[0]).toMatchObject({
+        type: 'system',
+        subtype: 'init',
+        cwd: '/repo',
+        model: 'claude-sonnet',
+        tools: ['Read', 'Bash'],
+        mcp_servers: [{ name: 'db', status: 'connected' }],
+        permissionMode: 'acceptEdits',
+        raw: init
+      });
+      expect(isSystemInitMessage(results[0]!)).toBe(true);
+      expect(results[1]).toMatchObject({
+        type: 'assistant',
+        id: 'msg_1',
+        model: 'claude-sonnet',
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 3, output_tokens: 2 },
+        parent_tool_use_id: null,
+        raw: assistant
+      });
+      expect(results[2]).toMatchObject({
+        type: 'result',
+        subtype: 'error_max_turns',
+        duration_ms: 1200,
+        duration_api_ms: 900,
+        num_turns: 3,
+        total_cost_usd: 0.02,
+        permission_denials: result.permission_denials,
+        raw: result
+      });
+    });
+
     it('should handle errors from transport', async () => {
       const errorOutput: CLIOutput = {
         type: 'error',
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { diagnose } from '../src/diagnostics.js';
+import { fakeClaudePath, fakeClaudeEnv } from '../src/testing.js';
+
+describe('diagnose', () => {
+  it('should report the CLI, its capabilities and the environment', async () => {
+    const report = await diagnose({
+      executablePath: fakeClaudePath,
+      env: {
+        ...fakeClaudeEnv({ version: '2.1.0 (Claude Code)' }),
+        ANTHROPIC_API_KEY: 'sk-secret',
+        ANTHROPIC_BASE_URL: 'https://proxy.example.com'
+      }
+    });
+
+    expect(report.cli).toEqual({
+      path: fakeClaudePath,
+      candidates: [
+        { path: fakeClaudePath, source: 'executablePath', found: true }
+      ],
+      version: '2.1.0 (Claude Code)',
+      supportsStreamJsonInput: true
+    });
+    expect(report.node.version).toBe(process.version);
+    expect(report.env).toMatchObject({
+      CLAUDE_CODE_ENTRYPOINT: 'sdk-ts',
+      ANTHROPIC_API_KEY: '[redacted]',
+      ANTHROPIC_BASE_URL: 'https://proxy.example.com'
+    });
+    expect(JSON.stringify(report)).not.toContain('sk-secret');
+  });
+
+  it('should detect a CLI without stream-json input', async () => {
+    const report = await diagnose({
+      executablePath: fakeClaudePath,
+      env: fakeClaudeEnv({
+        help: [
+          'Options:',
+          '  --input-format <format>  Input format: "text" (default)',
+          '  --output-format <format>  Output format: "text" or "stream-json"'
+        ].join('\n')
+      })
+    });
+
+    expect(report.cli.supportsStreamJsonInput).toBe(false);
+    expect(report.cli.error).toBeUndefined();
+  });
+
+  it('should report a missing CLI instead of throwing', async () => {
+    const missing = join(tmpdir(), 'no-such-claude');
+    const report = await diagnose({ executablePath: missing });
+
+    expect(report.cli).toMatchObject({
+      path: null,
+      candidates: [{ path: missing, source: 'executablePath', found: false }],
+      version: null,
+      supportsStreamJsonInput: null,
+      error: 'Claude Code CLI not found'
+    });
+  });
+});
@@ -4,7 +4,13 @@ import {
   CLIConnectionError,
   CLINotFoundError,
   ProcessError,
-  CLIJSONDecodeError
+  CLIJSONDecodeError,
+  AuthenticationError,
+  RateLimitError,
+  MaxTurnsExceededError,
+  ToolPermissionDeniedError,
+  ContextWindowExceededError,
+  TimeoutError
 } from '../src/errors.js';
 
 describe('Error Classes', () => {
@@ -87,6 +93,51 @@ describe('Error Classes', () => {
     });
   });
 
+  describe('Typed process errors', () => {
+    it('should carry the failure details and stay ProcessErrors', () => {
+      const lastResult = {
+        type: 'result' as const,
+        subtype: 'error_during_execution' as const,
+        content: 'API Error: 429',
+        is_error: true
+      };
+      const error = new RateLimitError('Claude Code CLI exited with code 1', {
+        exitCode: 1,
+        stderr: 'API Error: 429 Too Many Requests',
+        sessionId: 'session-1',
+        lastResult
+      });
+
+      expect(error).toBeInstanceOf(ProcessError);
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.name).toBe('RateLimitError');
+      expect(error.exitCode).toBe(1);
+      expect(error.stderr).toBe('API Error: 429 Too Many Requests');
+      expect(error.sessionId).toBe('session-1');
+      expect(error.lastResult).toBe(lastResult);
+    });
+
+    it('should give each class its own name', () => {
+      const errors = [
+        new AuthenticationError('test'),
+        new MaxTurnsExceededError('test'),
+        new ToolPermissionDeniedError('test'),
+        new ContextWindowExceededError('test'),
+        new TimeoutError('test', 1000)
+      ];
+
+      expect(errors.map((error) => error.name)).toEqual([
+        'AuthenticationError',
+        'MaxTurnsExceededError',
+        'ToolPermissionDeniedError',
+        'ContextWindowExceededError',
+        'TimeoutError'
+      ]);
+      expect(errors.every((error) => error instanceof ProcessError)).toBe(true);
+      expect((errors[4] as TimeoutError).timeoutMs).toBe(1000);
+    });
+  });
+
   describe('Error inheritance', () => {
     it('should maintain proper instanceof checks', () => {
       const connectionError = new CLIConnectionError('test');
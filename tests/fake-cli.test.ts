@@ -0,0 +1,706 @@
+import { describe, it, expect } from 'vitest';
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { claude } from '../src/fluent.js';
+import { fakeClaudePath, fakeClaudeEnv } from '../src/testing.js';
+import {
+  AuthenticationError,
+  ClaudeSDKError,
+  CLIJSONDecodeError,
+  ControlRequestTimeoutError,
+  MaxTurnsExceededError,
+  ProcessError,
+  ToolPermissionDeniedError
+} from '../src/errors.js';
+import type { Message, ResultMessage } from '../src/types.js';
+import { useFakeCLI } from './helpers/fake-cli.js';
+
+describe('Fake Claude CLI', () => {
+  const cli = useFakeCLI('fake');
+
+  it('should echo the prompt when no scenario is given', async () => {
+    const parser = cli.fake().withModel('sonnet').query('Hello');
+
+    expect(await parser.asText()).toBe('Echo: Hello');
+    expect(await parser.getSessionId()).toBe('fake-session-id');
+
+    const log = await cli.readLog();
+    expect(log[0].argv).toEqual(
+      expect.arrayContaining(['--output-format', 'stream-json', '--print'])
+    );
+    expect(log[0].argv).toEqual(expect.arrayContaining(['--model', 'sonnet']));
+    expect(log[1]).toEqual({ event: 'stdin', data: 'Hello\n' });
+  });
+
+  it('should play scripted turns with a custom session ID', async () => {
+    const parser = claude()
+      .withExecutable(fakeClaudePath)
+      .withEnv(
+        fakeClaudeEnv({
+          sessionId: 'scripted-session',
+          turns: [
+            [
+              {
+                message: {
+                  type: 'assistant',
+                  message: {
+                    content: [
+                      {
+                        type: 'tool_use',
+                        id: 'tool-1',
+                        name: 'Read',
+                        input: { file_path: 'a.txt' }
+                      }
+                    ]
+                  }
+                }
+              },
+              { text: 'Done reading', delayMs: 5 },
+              { result: 'Done reading' }
+            ]
+          ]
+        })
+      )
+      .query('Read a.txt');
+
+    const messages = await parser.asArray();
+    expect(messages.map((m) => m.type)).toEqual([
+      'system',
+      'assistant',
+      'assistant',
+      'result'
+    ]);
+    expect(await parser.getSessionId()).toBe('scripted-session');
+    expect(await parser.asResult()).toBe('Done reading');
+  });
+
+  it('should stream partial messages when requested', async () => {
+    const events: string[] = [];
+    const parser = cli
+      .fake()
+      .withPartialMessages()
+      .onMessage((message) => {
+        if (message.type === 'stream_event') events.push(message.event.type);
+      })
+      .query('Hello there');
+
+    const chunks: string[] = [];
+    for await (const chunk of parser.textStream()) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['Echo: ', 'Hello ', 'there']);
+    expect(await parser.asText()).toBe('Echo: Hello there');
+    expect(events).toEqual([
+      'message_start',
+      'content_block_start',
+      'content_block_delta',
+      'content_block_delta',
+      'content_block_delta',
+      'content_block_stop',
+      'message_delta',
+      'message_stop'
+    ]);
+    const [start] = await cli.readLog();
+    expect(start.argv).toContain('--include-partial-messages');
+  });
+
+  it('should consult canUseTool for every tool request', async () => {
+    const scenario = {
+      turns: [
+        [
+          { toolUse: { name: 'Bash', input: { command: 'ls' } } },
+          { toolUse: { name: 'Bash', input: { command: 'rm -rf /' } } },
+          { toolUse: { name: 'Write', input: { file_path: 'a.txt' } } },
+          { result: 'done' }
+        ]
+      ]
+    };
+    const requests: Array<[string, Record<string, unknown>]> = [];
+    const allowlist = ['ls', 'git status'];
+
+    const messages = await cli
+      .fake(scenario)
+      .canUseTool(async (toolName, input, context) => {
+        requests.push([toolName, input]);
+        expect(context.toolUseId).toMatch(/^toolu_fake_/);
+        if (toolName === 'Bash') {
+          return allowlist.includes(input.command as string)
+            ? { behavior: 'allow' }
+            : { behavior: 'deny', message: 'Command is not allowlisted' };
+        }
+        return {
+          behavior: 'allow',
+          updatedInput: { ...input, file_path: 'sandbox/a.txt' }
+        };
+      })
+      .query('Do things')
+      .asArray();
+
+    expect(requests.map(([name]) => name)).toEqual(['Bash', 'Bash', 'Write']);
+    const toolResults = messages
+      .filter((message) => message.type === 'user')
+      .map((message) => (message.content as any[])[0]);
+    expect(toolResults).toEqual([
+      expect.objectContaining({
+        content: 'Ran Bash with {"command":"ls"}',
+        is_error: false
+      }),
+      expect.objectContaining({
+        content: 'Command is not allowlisted',
+        is_error: true
+      }),
+      expect.objectContaining({
+        content: 'Ran Write with {"file_path":"sandbox/a.txt"}',
+        is_error: false
+      })
+    ]);
+
+    const [start] = await cli.readLog();
+    expect(start.argv).toEqual(
+      expect.arrayContaining([
+        '--permission-prompt-tool',
+        'stdio',
+        '--input-format',
+        'stream-json'
+      ])
+    );
+  });
+
+  it('should deny the tool when canUseTool throws', async () => {
+    const scenario = {
+      turns: [[{ toolUse: { name: 'Bash' } }, { result: 'done' }]]
+    };
+
+    const messages = await cli
+      .fake(scenario)
+      .canUseTool(() => {
+        throw new Error('policy service unavailable');
+      })
+      .query('Run it')
+      .asArray();
+
+    const toolResult = messages.find((message) => message.type === 'user');
+    expect((toolResult!.content as any[])[0]).toEqual(
+      expect.objectContaining({
+        content: 'policy service unavailable',
+        is_error: true
+      })
+    );
+  });
+
+  it('should surface non-zero exit codes as ProcessError', async () => {
+    const exitCodes: number[] = [];
+    const parser = claude()
+      .withExecutable(fakeClaudePath)
+      .withEnv(
+        fakeClaudeEnv({
+          turns: [[{ stderr: 'Something went wrong\n' }, { exit: 2 }]]
+        })
+      )
+      .onProcessComplete((exitCode) => exitCodes.push(exitCode))
+      .query('Fail please');
+
+    const error = await parser.asArray().catch((e) => e);
+    expect(error).toBeInstanceOf(ProcessError);
+    expect(error.exitCode).toBe(2);
+    expect(exitCodes).toEqual([2]);
+  });
+
+  it('should raise AuthenticationError with the stderr tail and session', async () => {
+    const error = await claude()
+      .withExecutable(fakeClaudePath)
+      .withEnv(
+        fakeClaudeEnv({
+          turns: [
+            [
+              { text: 'Starting' },
+              { stderr: 'Invalid API key · Please run /login\n', exit: 1 }
+            ]
+          ]
+        })
+      )
+      .query('Go')
+      .asArray()
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error).toBeInstanceOf(ProcessError);
+    expect(error.exitCode).toBe(1);
+    expect(error.stderr).toContain('Invalid API key');
+    expect(error.sessionId).toBe('fake-session-id');
+  });
+
+  it('should raise MaxTurnsExceededError with the last result', async () => {
+    const error = await claude()
+      .withExecutable(fakeClaudePath)
+      .withEnv(
+        fakeClaudeEnv({
+          turns: [
+            [
+              {
+                message: {
+                  type: 'result',
+                  subtype: 'error_max_turns',
+                  is_error: true,
+                  num_turns: 3
+                }
+              },
+              { exit: 1 }
+            ]
+          ]
+        })
+      )
+      .withMaxTurns(3)
+      .query('Keep going')
+      .asArray()
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(MaxTurnsExceededError);
+    expect(error.lastResult).toEqual(
+      expect.objectContaining({ subtype: 'error_max_turns', num_turns: 3 })
+    );
+  });
+
+  it('should raise ToolPermissionDeniedError when denials end the query', async () => {
+    const denial = {
+      tool_name: 'Bash',
+      tool_use_id: 'tool-1',
+      tool_input: { command: 'rm -rf build' }
+    };
+    const error = await claude()
+      .withExecutable(fakeClaudePath)
+      .withEnv(
+        fakeClaudeEnv({
+          turns: [
+            [
+              {
+                message: {
+                  type: 'result',
+                  subtype: 'error_during_execution',
+                  is_error: true,
+                  permission_denials: [denial]
+                }
+              },
+              { exit: 1 }
+            ]
+          ]
+        })
+      )
+      .query('Clean up')
+      .asArray()
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ToolPermissionDeniedError);
+    expect(error.denials).toEqual([denial]);
+  });
+
+  it('should raise ToolPermissionDeniedError when the CLI exits cleanly', async () => {
+    const denial = { tool_name: 'Bash', tool_use_id: 'tool-1', tool_input: {} };
+    const scenario = {
+      turns: [
+        [
+          {
+            message: {
+              type: 'result',
+              subtype: 'error_during_execution',
+              is_error: true,
+              permission_denials: [denial]
+            }
+          }
+        ]
+      ]
+    };
+    const messages: Message[] = [];
+
+    const error = await cli
+      .fake(scenario)
+      .onMessage((message) => messages.push(message))
+      .query('Clean up')
+      .asArray()
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ToolPermissionDeniedError);
+    expect(error.exitCode).toBeUndefined();
+    expect(error.sessionId).toBe('fake-session-id');
+    expect(error.denials).toEqual([denial]);
+    expect(messages.at(-1)).toMatchObject({ type: 'result', is_error: true });
+    expect(await cli.readLog()).toContainEqual({ event: 'exit', code: 0 });
+  });
+
+  it('should raise MaxTurnsExceededError in a keepAlive conversation', async () => {
+    const scenario = {
+      turns: [
+        [
+          {
+            message: {
+              type: 'result',
+              subtype: 'error_max_turns',
+              is_error: true,
+              num_turns: 3
+            }
+          }
+        ]
+      ]
+    };
+    const conversation = cli
+      .fake(scenario)
+      .withMaxTurns(3)
+      .asConversation(true);
+
+    const error = await conversation
+      .query('Keep going')
+      .asArray()
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(MaxTurnsExceededError);
+    expect(error.lastResult).toEqual(
+      expect.objectContaining({ subtype: 'error_max_turns', num_turns: 3 })
+    );
+    await conversation.dispose();
+  });
+
+  it('should raise CLIJSONDecodeError for malformed JSON on stdout', async () => {
+    const parser = claude()
+      .withExecutable(fakeClaudePath)
+      .withEnv(fakeClaudeEnv({ turns: [[{ stdout: '{"type": oops}\n' }]] }))
+      .query('Break');
+
+    await expect(parser.asArray()).rejects.toThrow(CLIJSONDecodeError);
+  });
+
+  it('should keep a keepAlive conversation running until end()', async () => {
+    const completed: number[] = [];
+    const conversation = cli.fake().asConversation(true);
+    conversation.onProcessComplete((exitCode) => completed.push(exitCode));
+
+    const results: Message[] = [];
+    let onResult: () => void = () => {};
+    conversation.stream((message) => {
+      if (message.type === 'result') {
+        results.push(message);
+        onResult();
+      }
+    });
+    const nextResult = () =>
+      new Promise<void>((resolve) => {
+        onResult = resolve;
+      });
+
+    const firstResult = nextResult();
+    const parser = conversation.query('First');
+    const done = parser.asArray();
+    await firstResult;
+
+    const secondResult = nextResult();
+    await conversation.send('Second');
+    await secondResult;
+
+    expect(results.map((r) => (r as any).result)).toEqual([
+      'Echo: First',
+      'Echo: Second'
+    ]);
+
+    await conversation.end();
+    await done;
+
+    expect(completed).toEqual([0]);
+    const log = await cli.readLog();
+    expect(log[0].argv).toEqual(
+      expect.arrayContaining(['--input-format', 'stream-json'])
+    );
+    expect(log.at(-1)).toEqual({ event: 'exit', code: 0 });
+
+    await conversation.dispose();
+  });
+
+  it('should interrupt a turn and keep the process for the next send()', async () => {
+    const scenario = {
+      turns: [[{ text: 'Working...' }, { delayMs: 60000 }, { result: 'late' }]]
+    };
+    const conversation = cli.fake(scenario).asConversation(true);
+
+    const results: ResultMessage[] = [];
+    let onMessage: (message: Message) => void = () => {};
+    conversation.stream((message) => {
+      if (message.type === 'result') results.push(message);
+      onMessage(message);
+    });
+    const next = (type: Message['type']) =>
+      new Promise<void>((resolve) => {
+        onMessage = (message) => {
+          if (message.type === type) resolve();
+        };
+      });
+
+    const working = next('assistant');
+    const done = conversation.query('Refactor everything').asArray();
+    await working;
+
+    const interrupted = next('result');
+    await conversation.interrupt();
+    await interrupted;
+
+    const secondResult = next('result');
+    await conversation.send('Just fix the typo');
+    await secondResult;
+
+    expect(results).toEqual([
+      expect.objectContaining({
+        subtype: 'error_during_execution',
+        interrupted: true
+      }),
+      expect.objectContaining({ result: 'Echo: Just fix the typo' })
+    ]);
+    expect(results[1]!.interrupted).toBeUndefined();
+
+    await conversation.end();
+    await done;
+    await conversation.dispose();
+
+    const log = await cli.readLog();
+    expect(log.filter((entry) => entry.event === 'start')).toHaveLength(1);
+    expect(log.filter((entry) => entry.event === 'interrupt')).toHaveLength(1);
+  });
+
+  it('should stop waiting for an interrupt the CLI never answers', async () => {
+    const scenario = {
+      turns: [[{ text: 'Working...' }, { delayMs: 1000 }, { result: 'Done' }]],
+      ignoredControlRequests: ['interrupt']
+    };
+    const conversation = cli
+      .fake(scenario)
+      .withTimeout({ control: 200 })
+      .asConversation();
+
+    let onAssistant: () => void = () => {};
+    const working = new Promise<void>((resolve) => {
+      onAssistant = resolve;
+    });
+    conversation.stream((message) => {
+      if (message.type === 'assistant') onAssistant();
+    });
+    const done = conversation.query('Refactor everything').asArray();
+    await working;
+
+    const error = await conversation.interrupt().catch((error) => error);
+    expect(error).toBeInstanceOf(ControlRequestTimeoutError);
+    expect(error).toMatchObject({ subtype: 'interrupt', timeoutMs: 200 });
+
+    // The turn goes on and is not marked as interrupted
+    const result = (await done).find((message) => message.type === 'result');
+    expect(result).toMatchObject({ result: 'Done' });
+    expect((result as ResultMessage).interrupted).toBeUndefined();
+    await conversation.dispose();
+
+    const log = await cli.readLog();
+    expect(log).toContainEqual({ event: 'ignored', subtype: 'interrupt' });
+  });
+
+  it('should switch model and permission mode on the running process', async () => {
+    const conversation = cli.fake().withModel('sonnet').asConversation(true);
+
+    const assistants: Message[] = [];
+    let onResult: () => void = () => {};
+    conversation.stream((message) => {
+      if (message.type === 'assistant') assistants.push(message);
+      if (message.type === 'result') onResult();
+    });
+    const nextResult = () =>
+      new Promise<void>((resolve) => {
+        onResult = resolve;
+      });
+
+    const firstResult = nextResult();
+    const done = conversation.query('First').asArray();
+    await firstResult;
+
+    await conversation.setModel('opus');
+    await conversation.setPermissionMode('acceptEdits');
+    const secondResult = nextResult();
+    await conversation.send('Second');
+    await secondResult;
+
+    expect(assistants.map((message) => (message as any).model)).toEqual([
+      'sonnet',
+      'opus'
+    ]);
+
+    await conversation.end();
+    await done;
+    await conversation.dispose();
+
+    const log = await cli.readLog();
+    expect(log.filter((entry) => entry.event === 'start')).toHaveLength(1);
+    const requests = log
+      .filter((entry) => entry.event === 'stdin')
+      .map((entry) => JSON.parse(entry.data))
+      .filter((message) => message.type === 'control_request')
+      .map((message) => message.request);
+    expect(requests).toEqual([
+      { subtype: 'set_model', model: 'opus' },
+      { subtype: 'set_permission_mode', mode: 'acceptEdits' }
+    ]);
+  });
+
+  it('should resume with the new model when the CLI cannot switch', async () => {
+    const scenario = { unsupportedControlRequests: ['set_model'] };
+    const conversation = cli
+      .fake(scenario)
+      .withModel('sonnet')
+      .asConversation(true);
+
+    const messages: Message[] = [];
+    let onResult: () => void = () => {};
+    conversation.stream((message) => {
+      messages.push(message);
+      if (message.type === 'result') onResult();
+    });
+    const nextResult = () =>
+      new Promise<void>((resolve) => {
+        onResult = resolve;
+      });
+
+    const firstResult = nextResult();
+    const done = conversation.query('First').asArray();
+    await firstResult;
+
+    await conversation.setModel('opus');
+    await done;
+    expect(conversation.getSessionId()).toBe('fake-session-id');
+
+    const secondResult = nextResult();
+    await conversation.send('Second');
+    await secondResult;
+
+    const inits = messages.filter(
+      (message) => message.type === 'system' && message.subtype === 'init'
+    );
+    expect(inits.map((message) => (message as any).model)).toEqual([
+      'sonnet',
+      'opus'
+    ]);
+    expect(conversation.getSessionId()).toBe('fake-session-id');
+
+    await conversation.end();
+    await conversation.dispose();
+
+    const starts = (await cli.readLog()).filter(
+      (entry) => entry.event === 'start'
+    );
+    expect(starts).toHaveLength(2);
+    expect(starts[1].argv).toEqual(
+      expect.arrayContaining(['--model', 'opus', '--resume', 'fake-session-id'])
+    );
+  });
+
+  it('should resume with the new mode when the CLI does not answer', async () => {
+    const scenario = { ignoredControlRequests: ['set_permission_mode'] };
+    const conversation = cli
+      .fake(scenario)
+      .withTimeout({ control: 200 })
+      .asConversation(true);
+
+    let onResult: () => void = () => {};
+    conversation.stream((message) => {
+      if (message.type === 'result') onResult();
+    });
+    const nextResult = () =>
+      new Promise<void>((resolve) => {
+        onResult = resolve;
+      });
+
+    const firstResult = nextResult();
+    const done = conversation.query('First').asArray();
+    await firstResult;
+
+    await conversation.setPermissionMode('acceptEdits');
+    await done;
+
+    const secondResult = nextResult();
+    await conversation.send('Second');
+    await secondResult;
+    await conversation.end();
+    await conversation.dispose();
+
+    const log = await cli.readLog();
+    expect(log).toContainEqual({
+      event: 'ignored',
+      subtype: 'set_permission_mode'
+    });
+    const starts = log.filter((entry) => entry.event === 'start');
+    expect(starts).toHaveLength(2);
+    expect(starts[1].argv).toEqual(
+      expect.arrayContaining([
+        '--permission-mode',
+        'acceptEdits',
+        '--resume',
+        'fake-session-id'
+      ])
+    );
+  });
+
+  it('should send image and document blocks read from disk', async () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+    await writeFile(join(cli.dir, 'screenshot.png'), png);
+    await writeFile(join(cli.dir, 'notes.md'), '# Notes');
+
+    const conversation = cli.fake().inDirectory(cli.dir).asConversation();
+
+    const results: Message[] = [];
+    const received = new Promise<void>((resolve) => {
+      conversation.stream((message) => {
+        if (message.type === 'result') {
+          results.push(message);
+          resolve();
+        }
+      });
+    });
+
+    await conversation.send([
+      { type: 'text', text: 'What changed?' },
+      { type: 'image', source: { type: 'path', path: 'screenshot.png' } },
+      {
+        type: 'document',
+        source: { type: 'path', path: join(cli.dir, 'notes.md') },
+        title: 'Notes'
+      }
+    ]);
+    await received;
+    await conversation.dispose();
+
+    expect((results[0] as any).result).toBe('Echo: What changed?');
+    const stdin = (await cli.readLog()).find(
+      (entry) => entry.event === 'stdin'
+    );
+    expect(JSON.parse(stdin.data).message.content).toEqual([
+      { type: 'text', text: 'What changed?' },
+      {
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type: 'image/png',
+          data: png.toString('base64')
+        }
+      },
+      {
+        type: 'document',
+        source: { type: 'text', media_type: 'text/plain', data: '# Notes' },
+        title: 'Notes'
+      }
+    ]);
+  });
+
+  it('should reject files with an unknown media type', async () => {
+    const conversation = cli.fake().asConversation();
+
+    await expect(
+      conversation.send({
+        type: 'image',
+        source: { type: 'path', path: join(cli.dir, 'image.bmp') }
+      })
+    ).rejects.toThrow(ClaudeSDKError);
+
+    await conversation.dispose();
+  });
+});
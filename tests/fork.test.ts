@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { ClaudeSDKError } from '../src/errors.js';
+import { useFakeCLI } from './helpers/fake-cli.js';
+
+describe('Conversation.fork()', () => {
+  const cli = useFakeCLI('fork');
+
+  const conversation = () => cli.fake().asConversation();
+
+  it('should branch into independent sessions that can run in parallel', async () => {
+    const parent = conversation();
+    await parent.query('Draft the migration').asText();
+
+    const useZod = parent.fork();
+    const useYup = parent.fork();
+    expect(useZod.getBranch()).toEqual({
+      parentSessionId: 'fake-session-id',
+      forkPoint: 3
+    });
+    expect(useZod.getParent()).toBe(parent);
+    expect(parent.getForks()).toEqual([useZod, useYup]);
+    expect(parent.getBranch()).toBeNull();
+
+    const replies = await Promise.all([
+      useZod.query('Use zod').asText(),
+      useYup.query('Use yup').asText()
+    ]);
+    expect(replies).toEqual(['Echo: Use zod', 'Echo: Use yup']);
+
+    const forkIds = [useZod.getSessionId(), useYup.getSessionId()];
+    expect(forkIds[0]).toMatch(/^fake-session-id-fork-/);
+    expect(forkIds[1]).toMatch(/^fake-session-id-fork-/);
+    expect(forkIds[0]).not.toBe(forkIds[1]);
+    expect(parent.getSessionId()).toBe('fake-session-id');
+
+    const starts = (await cli.readLog()).filter(
+      (entry) => entry.event === 'start'
+    );
+    expect(starts).toHaveLength(3);
+    for (const start of starts.slice(1)) {
+      expect(start.argv).toEqual(
+        expect.arrayContaining([
+          '--resume',
+          'fake-session-id',
+          '--fork-session'
+        ])
+      );
+    }
+  });
+
+  it('should keep resuming its own session after the first fork', async () => {
+    const parent = conversation();
+    await parent.query('Start').asText();
+
+    const fork = parent.fork();
+    await fork.query('First').asText();
+    const forkId = fork.getSessionId()!;
+    await fork.query('Second').asText();
+
+    const last = (await cli.readLog())
+      .filter((entry) => entry.event === 'start')
+      .at(-1);
+    expect(last.argv).toEqual(expect.arrayContaining(['--resume', forkId]));
+    expect(last.argv).not.toContain('--fork-session');
+    expect(fork.getSessionId()).toBe(forkId);
+  });
+
+  it('should refuse to fork before there is a session', () => {
+    expect(() => conversation().fork()).toThrow(ClaudeSDKError);
+  });
+});
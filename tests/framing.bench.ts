@@ -0,0 +1,94 @@
+import { bench, describe } from 'vitest';
+import { AsyncMessageQueue } from '../src/_internal/transport/message-queue.js';
+
+/**
+ * Benchmarks for delivering parsed CLI messages from stdout data events to
+ * the receiveMessages() consumer. `polling` reproduces the previous
+ * array + 10ms setTimeout loop for comparison.
+ *
+ * Run with `npm run bench`.
+ */
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface Channel {
+  push(item: number): void;
+  end(): void;
+  consume(onItem: (item: number) => void): Promise<void>;
+}
+
+function pollingChannel(): Channel {
+  const items: number[] = [];
+  let complete = false;
+  return {
+    push: (item) => items.push(item),
+    end: () => {
+      complete = true;
+    },
+    async consume(onItem) {
+      let index = 0;
+      while (!complete || index < items.length) {
+        if (index < items.length) {
+          onItem(items[index++]!);
+        } else {
+          await sleep(10);
+        }
+      }
+    }
+  };
+}
+
+function queueChannel(): Channel {
+  const queue = new AsyncMessageQueue<number>();
+  return {
+    push: (item) => queue.push(item),
+    end: () => queue.end(),
+    async consume(onItem) {
+      for await (const item of queue) {
+        onItem(item);
+      }
+    }
+  };
+}
+
+// Producer emits messages in bursts, like stdout data events
+async function throughput(channel: Channel, total: number, burst: number) {
+  const consumed = channel.consume(() => {});
+  for (let sent = 0; sent < total; sent += burst) {
+    for (let i = 0; i < burst; i++) channel.push(sent + i);
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  channel.end();
+  await consumed;
+}
+
+// Each message is pushed only after the previous one was received
+async function latency(channel: Channel, rounds: number) {
+  let received: () => void = () => {};
+  const consumed = channel.consume(() => received());
+  for (let i = 0; i < rounds; i++) {
+    const arrived = new Promise<void>((resolve) => {
+      received = resolve;
+    });
+    setImmediate(() => channel.push(i));
+    await arrived;
+  }
+  channel.end();
+  await consumed;
+}
+
+describe('receiveMessages framing: throughput (5000 messages)', () => {
+  bench('polling', () => throughput(pollingChannel(), 5000, 50), {
+    iterations: 3
+  });
+  bench('event-driven queue', () => throughput(queueChannel(), 5000, 50), {
+    iterations: 3
+  });
+});
+
+describe('receiveMessages framing: per-message latency (20 round trips)', () => {
+  bench('polling', () => latency(pollingChannel(), 20), { iterations: 3 });
+  bench('event-driven queue', () => latency(queueChannel(), 20), {
+    iterations: 3
+  });
+});
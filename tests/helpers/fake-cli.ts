@@ -0,0 +1,73 @@
+import { beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { claude, type QueryBuilder } from '../../src/fluent.js';
+import { fakeClaudePath, fakeClaudeEnv } from '../../src/testing.js';
+import type { FakeClaudeScenario } from '../../src/testing.js';
+
+export interface FakeCLI {
+  // Temporary directory of the current test
+  readonly dir: string;
+  // Where the fake CLI logs its argv, stdin and exits
+  readonly logFile: string;
+  // Builder that runs the fake CLI with this scenario
+  fake(scenario?: FakeClaudeScenario): QueryBuilder;
+  // Events the fake CLI logged so far
+  readLog(): Promise<any[]>;
+}
+
+/**
+ * Give every test of the enclosing describe() a temporary directory and a
+ * fake CLI that logs into it
+ */
+export function useFakeCLI(name: string): FakeCLI {
+  let dir = '';
+  const logFile = () => join(dir, 'cli.log');
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), `claude-sdk-${name}-`));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  return {
+    get dir() {
+      return dir;
+    },
+    get logFile() {
+      return logFile();
+    },
+    fake(scenario = {}) {
+      return claude()
+        .withExecutable(fakeClaudePath)
+        .withEnv(fakeClaudeEnv(scenario, logFile()));
+    },
+    readLog() {
+      return readLog(logFile());
+    }
+  };
+}
+
+export async function readLog(logFile: string): Promise<any[]> {
+  const contents = await readFile(logFile, 'utf8');
+  return contents
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+// Killed processes linger until they are reaped, so poll for a while
+export async function hasExited(pid: number): Promise<boolean> {
+  for (let i = 0; i < 40; i++) {
+    try {
+      process.kill(pid, 0);
+    } catch {
+      return true;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  return false;
+}
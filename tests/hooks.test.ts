@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import type { Message, PreToolUseHookInput } from '../src/types.js';
+import { useFakeCLI } from './helpers/fake-cli.js';
+
+function toolResults(messages: Message[]): any[] {
+  return messages
+    .filter((message) => message.type === 'user')
+    .map((message) => (message.content as any[])[0]);
+}
+
+describe('Hooks', () => {
+  const cli = useFakeCLI('hooks');
+
+  it('should block tool calls from a PreToolUse hook', async () => {
+    const scenario = {
+      turns: [
+        [
+          {
+            toolUse: { name: 'Edit', input: { file_path: 'migrations/1.sql' } }
+          },
+          { toolUse: { name: 'Edit', input: { file_path: 'src/app.ts' } } },
+          {
+            toolUse: { name: 'Read', input: { file_path: 'migrations/1.sql' } }
+          },
+          { result: 'done' }
+        ]
+      ]
+    };
+    const seen: PreToolUseHookInput[] = [];
+
+    const messages = await cli
+      .fake(scenario)
+      .onPreToolUse('Edit|Write', (input) => {
+        seen.push(input);
+        if (String(input.tool_input.file_path).startsWith('migrations/')) {
+          return { decision: 'deny', reason: 'Migrations are read-only' };
+        }
+        return undefined;
+      })
+      .query('Update the schema')
+      .asArray();
+
+    expect(seen.map((input) => input.tool_input.file_path)).toEqual([
+      'migrations/1.sql',
+      'src/app.ts'
+    ]);
+    expect(seen[0]).toEqual(
+      expect.objectContaining({
+        hook_event_name: 'PreToolUse',
+        tool_name: 'Edit',
+        session_id: 'fake-session-id'
+      })
+    );
+    expect(toolResults(messages)).toEqual([
+      expect.objectContaining({
+        content: 'Migrations are read-only',
+        is_error: true
+      }),
+      expect.objectContaining({ is_error: false }),
+      expect.objectContaining({ is_error: false })
+    ]);
+
+    const [start, initialize] = await cli.readLog();
+    expect(start.argv).toEqual(
+      expect.arrayContaining(['--input-format', 'stream-json'])
+    );
+    expect(JSON.parse(initialize.data).request).toEqual({
+      subtype: 'initialize',
+      hooks: {
+        PreToolUse: [{ matcher: 'Edit|Write', hookCallbackIds: ['hook_0'] }]
+      }
+    });
+  });
+
+  it('should rewrite input and add context around a tool call', async () => {
+    const scenario = {
+      turns: [
+        [
+          { toolUse: { name: 'Bash', input: { command: 'npm test' } } },
+          { result: 'done' }
+        ]
+      ]
+    };
+
+    const messages = await cli
+      .fake(scenario)
+      .onPreToolUse((input) => ({
+        updatedInput: { ...input.tool_input, timeout: 60000 }
+      }))
+      .onPostToolUse('Bash', (input) => ({
+        additionalContext: `Ran ${input.tool_name}`
+      }))
+      .query('Test it')
+      .asArray();
+
+    expect(toolResults(messages)[0].content).toBe(
+      'Ran Bash with {"command":"npm test","timeout":60000}'
+    );
+    const hookLog = (await cli.readLog()).filter(
+      (entry) => entry.event === 'hook'
+    );
+    expect(hookLog.map((entry) => entry.output)).toEqual([
+      {
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          updatedInput: { command: 'npm test', timeout: 60000 }
+        }
+      },
+      {
+        hookSpecificOutput: {
+          hookEventName: 'PostToolUse',
+          additionalContext: 'Ran Bash'
+        }
+      }
+    ]);
+  });
+
+  it('should run Stop and UserPromptSubmit hooks', async () => {
+    const prompts: string[] = [];
+
+    const text = await cli
+      .fake({})
+      .onUserPromptSubmit((input) => {
+        prompts.push(input.prompt);
+      })
+      .onStop((input) =>
+        input.stop_hook_active
+          ? undefined
+          : { decision: 'block', reason: 'run the linter first' }
+      )
+      .query('Fix the bug')
+      .asText();
+
+    expect(prompts).toEqual(['Fix the bug']);
+    expect(text).toBe('Echo: Fix the bug\nContinuing: run the linter first');
+  });
+
+  it('should block a prompt from a UserPromptSubmit hook', async () => {
+    const result = await cli
+      .fake({})
+      .onUserPromptSubmit(() => ({
+        decision: 'block',
+        reason: 'contains a secret'
+      }))
+      .query('my password is hunter2')
+      .asResult();
+
+    expect(result).toBe('Prompt blocked: contains a secret');
+  });
+
+  it('should apply conversation hooks to the next process', async () => {
+    const conversation = cli.fake({}).asConversation();
+    const prompts: string[] = [];
+    const unsubscribe = conversation.onUserPromptSubmit((input) => {
+      prompts.push(input.prompt);
+    });
+
+    await conversation.query('First').asText();
+    unsubscribe();
+    await conversation.query('Second').asText();
+    await conversation.dispose();
+
+    expect(prompts).toEqual(['First']);
+  });
+});
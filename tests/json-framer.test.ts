@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import { JSONFramer } from '../src/_internal/transport/json-framer.js';
+import { CLIJSONDecodeError } from '../src/errors.js';
+
+describe('JSONFramer', () => {
+  it('should parse newline-delimited messages', () => {
+    const framer = new JSONFramer();
+
+    const values = framer.push('{"type":"a"}\n{"type":"b"}\n[1,2]\n');
+
+    expect(values).toEqual([{ type: 'a' }, { type: 'b' }, [1, 2]]);
+    expect(framer.bufferedLength).toBe(0);
+  });
+
+  it('should keep state across chunks', () => {
+    const framer = new JSONFramer();
+    const message = JSON.stringify({
+      type: 'assistant',
+      text: 'braces } { and "quotes" and \\\\ backslashes'
+    });
+
+    const values: unknown[] = [];
+    for (const char of message + '\n') {
+      values.push(...framer.push(char));
+    }
+
+    expect(values).toEqual([JSON.parse(message)]);
+  });
+
+  it('should handle pretty-printed and concatenated JSON', () => {
+    const framer = new JSONFramer();
+
+    const values = [
+      ...framer.push('{\n  "type": "a",\n'),
+      ...framer.push('  "nested": { "x": [1] }\n}{"type":"b"}')
+    ];
+
+    expect(values).toEqual([{ type: 'a', nested: { x: [1] } }, { type: 'b' }]);
+  });
+
+  it('should skip non-JSON text between messages', () => {
+    const onSkip = vi.fn();
+    const framer = new JSONFramer({ onSkip });
+
+    const values = [
+      ...framer.push('Loading config...\n{"type":"a"}\nwarn'),
+      ...framer.push('ing: slow\n{"type":"b"}\n')
+    ];
+
+    expect(values).toEqual([{ type: 'a' }, { type: 'b' }]);
+    expect(onSkip).toHaveBeenCalledWith('Loading config...\n');
+    expect(onSkip).toHaveBeenCalledWith('warning: slow\n');
+  });
+
+  it('should throw CLIJSONDecodeError for malformed JSON', () => {
+    const framer = new JSONFramer();
+
+    expect(() => framer.push('{"type": oops}\n')).toThrow(CLIJSONDecodeError);
+  });
+
+  it('should reassemble a large message delivered in many chunks', () => {
+    const framer = new JSONFramer();
+    const content = 'x'.repeat(1024 * 1024);
+    const message = JSON.stringify({ type: 'tool_result', content }) + '\n';
+    const chunkSize = 4096;
+
+    const values: unknown[] = [];
+    for (let i = 0; i < message.length; i += chunkSize) {
+      values.push(...framer.push(message.slice(i, i + chunkSize)));
+    }
+
+    expect(values).toHaveLength(1);
+    expect((values[0] as any).content).toHaveLength(content.length);
+  });
+
+  it('should fail clearly when a message exceeds the maximum size', () => {
+    const framer = new JSONFramer({ maxMessageSize: 100 });
+
+    framer.push('{"type":"result","result":"');
+    let error: unknown;
+    try {
+      framer.push('y'.repeat(200));
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(CLIJSONDecodeError);
+    expect((error as CLIJSONDecodeError).message).toContain(
+      'maximum size of 100'
+    );
+    expect((error as CLIJSONDecodeError).rawOutput).toMatch(
+      /^\{"type":"result"/
+    );
+    expect(framer.bufferedLength).toBe(0);
+  });
+
+  it('should not count already emitted messages towards the size limit', () => {
+    const framer = new JSONFramer({ maxMessageSize: 50 });
+    const line = JSON.stringify({ type: 'a', text: 'z'.repeat(20) }) + '\n';
+
+    const values = framer.push(line.repeat(10));
+
+    expect(values).toHaveLength(10);
+  });
+});
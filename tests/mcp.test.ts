@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { claude } from '../src/fluent.js';
+import { createSdkMcpServer } from '../src/mcp.js';
+import { handleMcpMessage } from '../src/_internal/sdk-mcp.js';
+import { ClaudeSDKError } from '../src/errors.js';
+import type { Message, SdkMcpTool } from '../src/types.js';
+import { useFakeCLI } from './helpers/fake-cli.js';
+
+function toolResults(messages: Message[]): any[] {
+  return messages
+    .filter((message) => message.type === 'user')
+    .map((message) => (message.content as any[])[0]);
+}
+
+const getWeather: SdkMcpTool<{ city: string }> = {
+  name: 'get_weather',
+  description: 'Current weather for a city',
+  inputSchema: {
+    type: 'object',
+    properties: { city: { type: 'string' } },
+    required: ['city']
+  },
+  handler: async ({ city }) => `Sunny in ${city}`
+};
+
+describe('SDK MCP servers', () => {
+  const cli = useFakeCLI('mcp');
+
+  it('should route tool calls to withTool() handlers', async () => {
+    const scenario = {
+      turns: [
+        [
+          {
+            toolUse: {
+              name: 'mcp__sdk__get_weather',
+              input: { city: 'Oslo' }
+            }
+          },
+          { result: 'done' }
+        ]
+      ]
+    };
+
+    const messages = await cli
+      .fake(scenario)
+      .withTool(getWeather)
+      .query('Weather in Oslo?')
+      .asArray();
+
+    const init = messages.find((message) => message.type === 'system');
+    expect((init as any).tools).toContain('mcp__sdk__get_weather');
+    expect(toolResults(messages)).toEqual([
+      expect.objectContaining({
+        content: [{ type: 'text', text: 'Sunny in Oslo' }],
+        is_error: false
+      })
+    ]);
+
+    const mcpLog = (await cli.readLog()).filter(
+      (entry) => entry.event === 'mcp'
+    );
+    expect(mcpLog.map((entry) => entry.method)).toEqual([
+      'initialize',
+      'notifications/initialized',
+      'tools/list',
+      'tools/call'
+    ]);
+    expect(mcpLog[2].response.response.mcp_response.result.tools).toEqual([
+      {
+        name: 'get_weather',
+        description: 'Current weather for a city',
+        inputSchema: getWeather.inputSchema
+      }
+    ]);
+  });
+
+  it('should report handler errors as tool errors', async () => {
+    const server = createSdkMcpServer([
+      {
+        name: 'deploy',
+        description: 'Deploy the app',
+        inputSchema: { type: 'object' },
+        handler: () => {
+          throw new Error('Deploys are frozen');
+        }
+      }
+    ]);
+    const scenario = {
+      turns: [[{ toolUse: { name: 'mcp__ops__deploy' } }, { result: 'done' }]]
+    };
+
+    const messages = await cli
+      .fake(scenario)
+      .withMCP({ ops: server })
+      .query('Deploy')
+      .asArray();
+
+    expect(toolResults(messages)).toEqual([
+      expect.objectContaining({
+        content: [{ type: 'text', text: 'Deploys are frozen' }],
+        is_error: true
+      })
+    ]);
+  });
+
+  it('should refuse to add tools to an external server', () => {
+    expect(() =>
+      claude()
+        .withMCP({ sdk: { command: 'mcp-server' } })
+        .withTool(getWeather)
+    ).toThrow(ClaudeSDKError);
+  });
+
+  it('should answer unknown tools and methods with JSON-RPC errors', async () => {
+    const server = createSdkMcpServer([getWeather]);
+
+    const unknownTool = await handleMcpMessage(server, {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'missing', arguments: {} }
+    });
+    const unknownMethod = await handleMcpMessage(server, {
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'resources/list'
+    });
+
+    expect(unknownTool).toEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      error: { code: -32602, message: 'Unknown tool: missing' }
+    });
+    expect((unknownMethod as any).error.code).toBe(-32601);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AsyncMessageQueue } from '../src/_internal/transport/message-queue.js';
+
+describe('AsyncMessageQueue', () => {
+  it('should yield pushed items in order and finish on end()', async () => {
+    const queue = new AsyncMessageQueue<number>();
+    queue.push(1);
+    queue.push(2);
+    queue.end();
+
+    const items: number[] = [];
+    for await (const item of queue) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([1, 2]);
+  });
+
+  it('should wake a waiting consumer as soon as an item is pushed', async () => {
+    const queue = new AsyncMessageQueue<string>();
+    const next = queue.next();
+
+    queue.push('hello');
+
+    await expect(next).resolves.toEqual({ value: 'hello', done: false });
+    expect(queue.size).toBe(0);
+  });
+
+  it('should resolve a waiting consumer with done when ended', async () => {
+    const queue = new AsyncMessageQueue<string>();
+    const next = queue.next();
+
+    queue.end();
+
+    await expect(next).resolves.toEqual({ value: undefined, done: true });
+  });
+
+  it('should deliver buffered items before throwing a failure', async () => {
+    const queue = new AsyncMessageQueue<number>();
+    queue.push(1);
+    queue.fail(new Error('boom'));
+    queue.push(2); // ignored after failure
+
+    await expect(queue.next()).resolves.toEqual({ value: 1, done: false });
+    await expect(queue.next()).rejects.toThrow('boom');
+  });
+
+  it('should reject a waiting consumer when failed', async () => {
+    const queue = new AsyncMessageQueue<number>();
+    const next = queue.next();
+
+    queue.fail(new Error('boom'));
+
+    await expect(next).rejects.toThrow('boom');
+  });
+
+  it('should pause at the high water mark and resume at the low water mark', async () => {
+    const onPause = vi.fn();
+    const onResume = vi.fn();
+    const queue = new AsyncMessageQueue<number>({
+      highWaterMark: 4,
+      lowWaterMark: 1,
+      onPause,
+      onResume
+    });
+
+    for (let i = 0; i < 5; i++) {
+      queue.push(i);
+    }
+    expect(onPause).toHaveBeenCalledTimes(1);
+    expect(queue.isPaused).toBe(true);
+
+    await queue.next();
+    await queue.next();
+    await queue.next();
+    expect(onResume).not.toHaveBeenCalled();
+
+    await queue.next();
+    expect(onResume).toHaveBeenCalledTimes(1);
+    expect(queue.isPaused).toBe(false);
+    expect(queue.size).toBe(1);
+  });
+
+  it('should keep ordering across many items', async () => {
+    const queue = new AsyncMessageQueue<number>({ highWaterMark: 10_000 });
+    for (let i = 0; i < 5000; i++) {
+      queue.push(i);
+    }
+    queue.end();
+
+    let expected = 0;
+    for await (const item of queue) {
+      expect(item).toBe(expected++);
+    }
+    expect(expected).toBe(5000);
+  });
+});
@@ -64,6 +64,28 @@ describe('ResponseParser', () => {
       expect(text).toBe('First part\nSecond part\nThird part\nFourth part');
     });
 
+    it('should separate thinking from text', async () => {
+      messages = [
+        {
+          type: 'assistant',
+          content: [
+            { type: 'thinking', thinking: 'Let me check', signature: 'sig' },
+            { type: 'redacted_thinking', data: 'opaque' },
+            { type: 'text', text: 'Answer' }
+          ]
+        },
+        {
+          type: 'assistant',
+          content: [{ type: 'thinking', thinking: 'Done checking' }]
+        }
+      ];
+
+      const parser = new ResponseParser(mockGenerator());
+
+      expect(await parser.asText()).toBe('Answer');
+      expect(await parser.asThinking()).toBe('Let me check\nDone checking');
+    });
+
     it('should extract final result message', async () => {
       messages = [
         { type: 'user', content: 'Do something' },
@@ -490,6 +512,61 @@ describe('ResponseParser', () => {
 
       expect(handler).toHaveBeenCalledWith(messages[0]);
     });
+
+    it('should stream text deltas without repeating the full message', async () => {
+      const delta = (text: string): Message => ({
+        type: 'stream_event',
+        event: {
+          type: 'content_block_delta',
+          index: 0,
+          delta: { type: 'text_delta', text }
+        }
+      });
+      messages = [
+        {
+          type: 'stream_event',
+          event: { type: 'message_start', message: { id: 'msg_1' } }
+        },
+        delta('Hel'),
+        {
+          type: 'stream_event',
+          event: {
+            type: 'content_block_delta',
+            index: 1,
+            delta: { type: 'input_json_delta', partial_json: '{"a"' }
+          }
+        },
+        delta('lo'),
+        { type: 'stream_event', event: { type: 'message_stop' } },
+        { type: 'assistant', content: [{ type: 'text', text: 'Hello' }] },
+        { type: 'result', content: 'Hello' }
+      ];
+
+      const parser = new ResponseParser(mockGenerator());
+      const chunks: string[] = [];
+      for await (const chunk of parser.textStream()) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual(['Hel', 'lo']);
+      expect(await parser.asText()).toBe('Hello');
+    });
+
+    it('should stream whole messages when there are no deltas', async () => {
+      messages = [
+        { type: 'assistant', content: [{ type: 'text', text: 'One' }] },
+        { type: 'assistant', content: [{ type: 'text', text: 'Two' }] }
+      ];
+
+      const parser = new ResponseParser(mockGenerator());
+      await parser.asArray();
+      const chunks: string[] = [];
+      for await (const chunk of parser.textStream()) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual(['One', 'Two']);
+    });
   });
 
   describe('Error Handling', () => {
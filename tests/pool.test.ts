@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { claude } from '../src/fluent.js';
+import { ClaudePool } from '../src/pool.js';
+import type { PoolEvent } from '../src/pool.js';
+import { fakeClaudePath, fakeClaudeEnv } from '../src/testing.js';
+import type { FakeClaudeScenario } from '../src/testing.js';
+import { AbortError, ClaudeSDKError } from '../src/errors.js';
+import { useFakeCLI, hasExited } from './helpers/fake-cli.js';
+
+describe('ClaudePool', () => {
+  const cli = useFakeCLI('pool');
+
+  const scenario = (text: string, delayMs = 0): FakeClaudeScenario => ({
+    turns: [[{ text, delayMs }, { result: text }]]
+  });
+  const job = (scenario: FakeClaudeScenario) => ({
+    configure: (builder: ReturnType<typeof claude>) =>
+      builder.withEnv(fakeClaudeEnv(scenario, cli.logFile))
+  });
+  const createPool = (concurrency: number) =>
+    new ClaudePool({
+      concurrency,
+      builder: () => claude().withExecutable(fakeClaudePath)
+    });
+
+  it('should limit concurrency and start higher priority jobs first', async () => {
+    const pool = createPool(1);
+    const events: PoolEvent[] = [];
+    pool.onProgress((event) => events.push(event));
+
+    const texts = await Promise.all([
+      pool.submit('A', { id: 'a', ...job(scenario('A', 200)) }).asText(),
+      pool.submit('B', { id: 'b', ...job(scenario('B')) }).asText(),
+      pool.submit('C', { id: 'c', priority: 5, ...job(scenario('C')) }).asText()
+    ]);
+
+    expect(texts).toEqual(['A', 'B', 'C']);
+    expect(
+      events
+        .filter((event) => event.type === 'started')
+        .map((event) => event.jobId)
+    ).toEqual(['a', 'c', 'b']);
+    expect(Math.max(...events.map((event) => event.progress.running))).toBe(1);
+    expect(pool.getProgress()).toEqual({
+      queued: 0,
+      running: 0,
+      completed: 3,
+      failed: 0,
+      cancelled: 0
+    });
+
+    await pool.shutdown();
+  });
+
+  it('should cancel a queued job without starting it', async () => {
+    const pool = createPool(1);
+    const controller = new AbortController();
+
+    const first = pool.submit('First', job(scenario('First', 200))).asText();
+    const second = pool
+      .submit('Second', {
+        ...job(scenario('Second')),
+        signal: controller.signal
+      })
+      .asText()
+      .catch((e) => e);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    controller.abort('not needed');
+
+    const error = await second;
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error.reason).toBe('not needed');
+    expect(await first).toBe('First');
+
+    const starts = (await cli.readLog()).filter(
+      (entry) => entry.event === 'start'
+    );
+    expect(starts).toHaveLength(1);
+    expect(pool.getProgress()).toMatchObject({ completed: 1, cancelled: 1 });
+
+    await pool.shutdown();
+  });
+
+  it('should kill running jobs and reject queued ones on shutdown', async () => {
+    const pool = createPool(1);
+    const started = new Promise<void>((resolve) => {
+      pool.onProgress((event) => {
+        if (event.type === 'started') resolve();
+      });
+    });
+
+    const running = pool
+      .submit(
+        'Work',
+        job({
+          turns: [[{ text: 'Working', spawnChild: true }, { delayMs: 30000 }]]
+        })
+      )
+      .asText()
+      .catch((e) => e);
+    const queued = pool
+      .submit('Later', job(scenario('Later')))
+      .asText()
+      .catch((e) => e);
+    await started;
+    // Let the CLI start its child, which can take a while on a busy machine
+    while (
+      !(await cli.readLog().catch(() => [])).some(
+        (entry) => entry.event === 'child'
+      )
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+
+    await pool.shutdown();
+
+    expect(await running).toBeInstanceOf(AbortError);
+    expect(await queued).toBeInstanceOf(AbortError);
+
+    const child = (await cli.readLog()).find(
+      (entry) => entry.event === 'child'
+    );
+    expect(await hasExited(child.pid)).toBe(true);
+
+    await expect(pool.submit('Too late').asText()).rejects.toThrow(
+      ClaudeSDKError
+    );
+  });
+});
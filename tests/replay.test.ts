@@ -0,0 +1,328 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { claude } from '../src/fluent.js';
+import {
+  RecordingTransport,
+  ReplayTransport,
+  parseCassette
+} from '../src/_internal/transport/cassette.js';
+import { CLIConnectionError, CLIJSONDecodeError } from '../src/errors.js';
+import { fakeClaudePath, fakeClaudeEnv } from '../src/testing.js';
+import type { Message, Transport, TransportConfig } from '../src/types.js';
+
+const rawStream = [
+  {
+    type: 'system',
+    subtype: 'init',
+    session_id: 'replay-session-1',
+    model: 'claude-sonnet'
+  },
+  {
+    type: 'assistant',
+    message: { content: [{ type: 'text', text: 'First answer' }] },
+    session_id: 'replay-session-1'
+  },
+  {
+    type: 'result',
+    subtype: 'success',
+    result: 'First answer',
+    session_id: 'replay-session-1',
+    usage: { input_tokens: 10, output_tokens: 5 }
+  },
+  {
+    type: 'assistant',
+    message: { content: [{ type: 'text', text: 'Second answer' }] },
+    session_id: 'replay-session-1'
+  },
+  {
+    type: 'result',
+    subtype: 'success',
+    result: 'Second answer',
+    session_id: 'replay-session-1'
+  }
+];
+
+function toCassette(lines: unknown[]): string {
+  return lines.map((line) => JSON.stringify(line)).join('\n') + '\n';
+}
+
+describe('Cassette transports', () => {
+  let dir: string;
+  let cassettePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'claude-sdk-replay-'));
+    cassettePath = join(dir, 'cassette.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('parseCassette', () => {
+    it('should accept bare stream-json lines and recorded entries', () => {
+      const entries = parseCassette(
+        toCassette([
+          { type: 'system', subtype: 'init' },
+          { at: 10, data: '{"type":"assistant"' },
+          { at: 25, message: { type: 'result', result: 'ok' } }
+        ])
+      );
+
+      expect(entries).toEqual([
+        { at: 0, data: '{"type":"system","subtype":"init"}\n' },
+        { at: 10, data: '{"type":"assistant"' },
+        { at: 25, data: '{"type":"result","result":"ok"}\n' }
+      ]);
+    });
+
+    it('should throw CLIJSONDecodeError for malformed lines', () => {
+      expect(() => parseCassette('{"type": "assistant"\n')).toThrow(
+        CLIJSONDecodeError
+      );
+    });
+  });
+
+  describe('withReplay', () => {
+    it('should drive ResponseParser like a live run', async () => {
+      await writeFile(cassettePath, toCassette(rawStream.slice(0, 3)));
+
+      const parser = claude().withReplay(cassettePath).query('Say something');
+
+      expect(await parser.asText()).toBe('First answer');
+      expect(await parser.getSessionId()).toBe('replay-session-1');
+      expect(await parser.asResult()).toBe('First answer');
+      expect(await parser.getUsage()).toMatchObject({
+        inputTokens: 10,
+        outputTokens: 5
+      });
+    });
+
+    it('should call process complete handlers when the replay ends', async () => {
+      await writeFile(cassettePath, toCassette(rawStream.slice(0, 3)));
+      const exitCodes: number[] = [];
+
+      await claude()
+        .withReplay(cassettePath)
+        .onProcessComplete((exitCode) => exitCodes.push(exitCode))
+        .query('Say something')
+        .asArray();
+
+      expect(exitCodes).toEqual([0]);
+    });
+
+    it('should reject with CLIConnectionError when the cassette is missing', async () => {
+      const parser = claude()
+        .withReplay(join(dir, 'missing.jsonl'))
+        .query('Say something');
+
+      await expect(parser.asText()).rejects.toThrow(CLIConnectionError);
+    });
+
+    it('should pause keepAlive conversations after each result until send()', async () => {
+      await writeFile(cassettePath, toCassette(rawStream));
+
+      let transport: ReplayTransport | undefined;
+      const conversation = claude()
+        .withTransport((config) => {
+          transport = new ReplayTransport(config, cassettePath);
+          return transport;
+        })
+        .asConversation(true);
+
+      const received: Message[] = [];
+      let resolveFirstResult: () => void;
+      const firstResult = new Promise<void>((resolve) => {
+        resolveFirstResult = resolve;
+      });
+      conversation.stream((message) => {
+        received.push(message);
+        if (message.type === 'result') resolveFirstResult();
+      });
+
+      const parser = conversation.query('First question');
+      const done = parser.asArray();
+
+      await firstResult;
+      expect(received.map((m) => m.type)).toEqual([
+        'system',
+        'assistant',
+        'result'
+      ]);
+      expect(transport!.isActive()).toBe(true);
+
+      await conversation.send('Second question');
+      const messages = await done;
+
+      expect(messages).toHaveLength(5);
+      expect(conversation.getSessionId()).toBe('replay-session-1');
+      expect(transport!.getWrittenMessages()).toEqual([
+        expect.objectContaining({ content: 'Second question' })
+      ]);
+
+      await conversation.dispose();
+    });
+
+    it('should frame recorded output like live stdout', async () => {
+      const assistant = JSON.stringify(rawStream[1]);
+      await writeFile(
+        cassettePath,
+        toCassette([
+          { at: 0, data: assistant.slice(0, 20) },
+          {
+            at: 5,
+            data:
+              assistant.slice(20) +
+              '\nnpm WARN deprecated\n' +
+              JSON.stringify(rawStream[2]) +
+              '\n'
+          }
+        ])
+      );
+
+      const parser = claude().withReplay(cassettePath).query('Say something');
+
+      expect(await parser.asText()).toBe('First answer');
+      expect(await parser.asResult()).toBe('First answer');
+    });
+
+    it('should honour recorded timing when enabled', async () => {
+      await writeFile(
+        cassettePath,
+        toCassette([
+          { at: 0, data: JSON.stringify(rawStream[1]) + '\n' },
+          { at: 60, data: JSON.stringify(rawStream[2]) + '\n' }
+        ])
+      );
+
+      const start = Date.now();
+      await claude()
+        .withReplay(cassettePath, { timing: true })
+        .query('Say something')
+        .asArray();
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(50);
+    });
+  });
+
+  describe('RecordingTransport', () => {
+    it('should record received messages so they can be replayed', async () => {
+      const inner: Transport = {
+        connect: async () => {},
+        async *receiveMessages() {
+          for (const message of rawStream.slice(0, 3)) {
+            yield message as any;
+          }
+        },
+        writeToStdin: () => {},
+        writeMessage: () => {},
+        closeStdin: () => {},
+        terminate: async () => {},
+        disconnect: async () => {},
+        isActive: () => false
+      };
+
+      const recorded = await claude()
+        .withTransport((_config: TransportConfig) => inner)
+        .withRecording(cassettePath)
+        .query('Say something')
+        .asText();
+
+      const entries = parseCassette(await readFile(cassettePath, 'utf8'));
+      expect(entries.map((entry) => entry.data).join('')).toBe(
+        toCassette(rawStream.slice(0, 3))
+      );
+
+      const replayed = await claude()
+        .withReplay(cassettePath)
+        .query('Say something')
+        .asText();
+      expect(replayed).toBe(recorded);
+    });
+
+    it('should record the raw output of the CLI', async () => {
+      const recorded = await claude()
+        .withExecutable(fakeClaudePath)
+        .withEnv(
+          fakeClaudeEnv({
+            turns: [
+              [
+                { text: 'Hi' },
+                { stdout: 'Update available!\n' },
+                { result: 'Hi' }
+              ]
+            ]
+          })
+        )
+        .withRecording(cassettePath)
+        .query('Say hi')
+        .asArray();
+
+      const contents = await readFile(cassettePath, 'utf8');
+      const output = parseCassette(contents)
+        .map((entry) => entry.data)
+        .join('');
+      expect(output).toContain('Update available!\n');
+      expect(output.split('\n').filter(Boolean)).toHaveLength(4);
+
+      const replayed = await claude()
+        .withReplay(cassettePath)
+        .query('Say hi')
+        .asArray();
+      expect(replayed).toEqual(recorded);
+    });
+
+    it('should forward input and lifecycle calls to the inner transport', async () => {
+      const calls: string[] = [];
+      const inner: Transport = {
+        connect: async () => {
+          calls.push('connect');
+        },
+        async *receiveMessages() {},
+        writeToStdin: () => {
+          calls.push('write');
+        },
+        writeMessage: () => {
+          calls.push('writeMessage');
+        },
+        closeStdin: () => {
+          calls.push('close');
+        },
+        terminate: async () => {
+          calls.push('terminate');
+        },
+        disconnect: async () => {
+          calls.push('disconnect');
+        },
+        kill: async () => {
+          calls.push('kill');
+        },
+        isActive: () => true,
+        getStderr: () => 'API Error: 529 Overloaded'
+      };
+
+      const transport = new RecordingTransport(inner, cassettePath);
+      await transport.connect();
+      transport.writeToStdin({ type: 'user', content: 'hi' });
+      transport.writeMessage({ type: 'control_response' });
+      transport.closeStdin();
+      await transport.terminate();
+      await transport.disconnect();
+      await transport.kill();
+
+      expect(transport.isActive()).toBe(true);
+      expect(transport.getStderr()).toBe('API Error: 529 Overloaded');
+      expect(calls).toEqual([
+        'connect',
+        'write',
+        'writeMessage',
+        'close',
+        'terminate',
+        'disconnect',
+        'kill'
+      ]);
+    });
+  });
+});
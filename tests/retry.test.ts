@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import { AbortError, CLIJSONDecodeError, ProcessError } from '../src/errors.js';
+import { backoffDelay, RESUME_PROMPT } from '../src/_internal/retry.js';
+import { classifyFailure } from '../src/_internal/failures.js';
+import type { RetryEvent } from '../src/types.js';
+import { useFakeCLI } from './helpers/fake-cli.js';
+
+describe('Retries', () => {
+  const cli = useFakeCLI('retry');
+
+  it('should resume the session after a rate limited exit', async () => {
+    const scenario = {
+      turns: [
+        [
+          { text: 'Step 1 done' },
+          { stderr: 'API Error: 429 Too Many Requests\n', exit: 1 }
+        ]
+      ],
+      resumeTurns: [[{ text: 'Step 2 done' }, { result: 'All done' }]]
+    };
+    const retries: RetryEvent[] = [];
+
+    const parser = cli
+      .fake(scenario)
+      .withRetry({ backoff: 0 })
+      .onRetry((event) => {
+        retries.push(event);
+      })
+      .query('Do both steps');
+
+    expect(await parser.asText()).toBe('Step 1 done\nStep 2 done');
+    expect(await parser.asResult()).toBe('All done');
+    expect(retries).toEqual([
+      expect.objectContaining({
+        retry: 1,
+        kind: 'rate_limit',
+        delayMs: 0,
+        sessionId: 'fake-session-id'
+      })
+    ]);
+    expect(retries[0]!.error).toBeInstanceOf(ProcessError);
+
+    const log = await cli.readLog();
+    const starts = log.filter((entry) => entry.event === 'start');
+    expect(starts).toHaveLength(2);
+    expect(starts[1].argv).toEqual(
+      expect.arrayContaining(['--resume', 'fake-session-id'])
+    );
+    const prompts = log
+      .filter((entry) => entry.event === 'stdin')
+      .map((entry) => entry.data.trim());
+    expect(prompts).toEqual(['Do both steps', RESUME_PROMPT]);
+  });
+
+  it('should retry an overloaded error result without yielding it', async () => {
+    const scenario = {
+      turns: [
+        [
+          {
+            message: {
+              type: 'result',
+              subtype: 'error_during_execution',
+              is_error: true,
+              result: 'API Error: 529 {"type":"overloaded_error"}'
+            }
+          }
+        ]
+      ],
+      resumeTurns: [[{ result: 'Recovered' }]]
+    };
+
+    const messages = await cli
+      .fake(scenario)
+      .withRetry({ backoff: 0 })
+      .query('Go')
+      .asArray();
+
+    const results = messages.filter((message) => message.type === 'result');
+    expect(results).toEqual([
+      expect.objectContaining({ subtype: 'success', result: 'Recovered' })
+    ]);
+  });
+
+  it('should pass on the partial output of a retried attempt', async () => {
+    const scenario = {
+      turns: [
+        [
+          { text: 'Reading the files' },
+          { toolUse: { name: 'Read', input: { file_path: 'a.ts' } } },
+          {
+            message: {
+              type: 'result',
+              subtype: 'error_during_execution',
+              is_error: true,
+              result: 'API Error: 529 {"type":"overloaded_error"}'
+            }
+          }
+        ]
+      ],
+      resumeTurns: [[{ text: 'Summary' }, { result: 'Summary' }]]
+    };
+    const seen: string[] = [];
+
+    const parser = cli
+      .fake(scenario)
+      .withRetry({ backoff: 0 })
+      .onMessage((message) => seen.push(message.type))
+      .query('Summarise a.ts');
+
+    expect(await parser.asText()).toBe('Reading the files\nSummary');
+    const toolUses = (await parser.asArray()).flatMap((message) =>
+      message.type === 'assistant'
+        ? message.content.filter((block) => block.type === 'tool_use')
+        : []
+    );
+    expect(toolUses).toEqual([
+      expect.objectContaining({ name: 'Read', input: { file_path: 'a.ts' } })
+    ]);
+    expect(seen.filter((type) => type === 'system')).toHaveLength(2);
+    expect(seen.filter((type) => type === 'result')).toHaveLength(1);
+  });
+
+  it('should not retry authentication failures', async () => {
+    const scenario = {
+      turns: [[{ stderr: 'Invalid API key · Please run /login\n', exit: 1 }]]
+    };
+    const retries: RetryEvent[] = [];
+
+    const error = await cli
+      .fake(scenario)
+      .withRetry({ backoff: 0 })
+      .onRetry((event) => {
+        retries.push(event);
+      })
+      .query('Go')
+      .asText()
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ProcessError);
+    expect(error.stderr).toContain('Invalid API key');
+    expect(classifyFailure(error)).toBe('auth');
+    expect(retries).toEqual([]);
+    const starts = (await cli.readLog()).filter(
+      (entry) => entry.event === 'start'
+    );
+    expect(starts).toHaveLength(1);
+  });
+
+  it('should give up after the configured number of attempts', async () => {
+    const scenario = {
+      turns: [[{ stderr: 'Error: 529 Overloaded\n', exit: 1 }]],
+      resumeTurns: [[{ stderr: 'Error: 529 Overloaded\n', exit: 1 }]]
+    };
+    const retries: RetryEvent[] = [];
+
+    const error = await cli
+      .fake(scenario)
+      .withRetry({ attempts: 2, backoff: 0 })
+      .onRetry((event) => {
+        retries.push(event);
+      })
+      .query('Go')
+      .asText()
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ProcessError);
+    expect(retries.map((event) => event.kind)).toEqual(['overloaded']);
+  });
+
+  it('should stop waiting for a retry when the query is aborted', async () => {
+    const controller = new AbortController();
+    const startedAt = Date.now();
+
+    const error = await cli
+      .fake({ turns: [[{ stderr: 'Error: 529 Overloaded\n', exit: 1 }]] })
+      .withRetry({ backoff: 5000 })
+      .onRetry(() => {
+        setTimeout(() => controller.abort('user left'), 100);
+      })
+      .query('Go', controller.signal)
+      .asText()
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error.reason).toBe('user left');
+    expect(Date.now() - startedAt).toBeLessThan(3000);
+
+    const starts = (await cli.readLog()).filter(
+      (entry) => entry.event === 'start'
+    );
+    expect(starts).toHaveLength(1);
+  });
+});
+
+describe('classifyFailure', () => {
+  it('should classify errors and error results', () => {
+    expect(
+      classifyFailure(
+        new ProcessError('exited with code 1', 1, null, 'read ECONNRESET')
+      )
+    ).toBe('network');
+    expect(classifyFailure(new CLIJSONDecodeError('bad', '{'))).toBe(
+      'json_decode'
+    );
+    expect(classifyFailure(new Error('Tool failed'))).toBe('unknown');
+    expect(
+      classifyFailure({
+        type: 'result',
+        content: 'API Error: Rate limit exceeded',
+        is_error: true
+      })
+    ).toBe('rate_limit');
+  });
+});
+
+describe('backoffDelay', () => {
+  it('should grow exponentially up to the maximum', () => {
+    const backoff = { initialMs: 100, factor: 3, maxMs: 1000 };
+
+    expect([1, 2, 3, 4].map((retry) => backoffDelay(backoff, retry))).toEqual([
+      100, 300, 900, 1000
+    ]);
+    expect(backoffDelay(250, 3)).toBe(250);
+    expect(backoffDelay((retry) => retry * 10, 3)).toBe(30);
+  });
+});
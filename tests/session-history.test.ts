@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { listSessions, projectSessionsDir } from '../src/session-history.js';
+import { useFakeCLI } from './helpers/fake-cli.js';
+
+function transcript(entries: Record<string, unknown>[]): string {
+  return entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n';
+}
+
+describe('listSessions', () => {
+  let configDir: string;
+  const cwd = '/work/my.app';
+
+  beforeEach(async () => {
+    configDir = await mkdtemp(join(tmpdir(), 'claude-sdk-history-'));
+  });
+
+  afterEach(async () => {
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  it('should map the working directory like the CLI does', () => {
+    expect(projectSessionsDir({ cwd, configDir })).toBe(
+      join(configDir, 'projects', '-work-my-app')
+    );
+  });
+
+  it('should summarize transcripts, most recent first', async () => {
+    const dir = projectSessionsDir({ cwd, configDir });
+    await mkdir(dir, { recursive: true });
+    await writeFile(
+      join(dir, 'older.jsonl'),
+      transcript([
+        {
+          type: 'user',
+          cwd,
+          timestamp: '2025-01-01T10:00:00.000Z',
+          message: { role: 'user', content: 'Fix the login bug' }
+        },
+        {
+          type: 'assistant',
+          timestamp: '2025-01-01T10:01:00.000Z',
+          message: { role: 'assistant', content: [] }
+        }
+      ])
+    );
+    await writeFile(
+      join(dir, 'newer.jsonl'),
+      transcript([
+        { type: 'summary', summary: 'Refactor' },
+        {
+          type: 'user',
+          cwd,
+          timestamp: '2025-02-01T09:00:00.000Z',
+          message: {
+            role: 'user',
+            content: [{ type: 'text', text: 'Refactor the router' }]
+          }
+        },
+        {
+          type: 'user',
+          isSidechain: true,
+          timestamp: '2025-02-01T09:00:30.000Z',
+          message: { role: 'user', content: 'Subagent task' }
+        },
+        {
+          type: 'user',
+          timestamp: '2025-02-01T09:01:00.000Z',
+          message: {
+            role: 'user',
+            content: [{ type: 'tool_result', tool_use_id: 't1', content: 'ok' }]
+          }
+        }
+      ]) + '{"type": "assistant", "timest'
+    );
+
+    const sessions = await listSessions({ cwd, configDir });
+
+    expect(sessions).toEqual([
+      {
+        sessionId: 'newer',
+        path: join(dir, 'newer.jsonl'),
+        cwd,
+        createdAt: '2025-02-01T09:00:00.000Z',
+        updatedAt: '2025-02-01T09:01:00.000Z',
+        firstPrompt: 'Refactor the router',
+        messageCount: 2
+      },
+      expect.objectContaining({
+        sessionId: 'older',
+        firstPrompt: 'Fix the login bug',
+        messageCount: 2
+      })
+    ]);
+  });
+
+  it('should return nothing for a directory without sessions', async () => {
+    expect(await listSessions({ cwd: '/nowhere', configDir })).toEqual([]);
+  });
+});
+
+describe('continueLast()', () => {
+  const cli = useFakeCLI('continue');
+
+  it('should pass --continue unless a session ID is given', async () => {
+    const builder = cli.fake().continueLast();
+
+    await builder.query('Where were we?').asText();
+    await builder.withSessionId('session-1').query('And now?').asText();
+
+    const starts = (await cli.readLog()).filter(
+      (entry) => entry.event === 'start'
+    );
+    expect(starts[0].argv).toContain('--continue');
+    expect(starts[1].argv).not.toContain('--continue');
+    expect(starts[1].argv).toEqual(
+      expect.arrayContaining(['--resume', 'session-1'])
+    );
+  });
+});
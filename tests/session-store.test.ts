@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'node:path';
+import { claude } from '../src/fluent.js';
+import {
+  FileSessionStore,
+  MemorySessionStore,
+  loadConversation
+} from '../src/session-store.js';
+import { storableOptions } from '../src/_internal/session-recorder.js';
+import { createSdkMcpServer } from '../src/mcp.js';
+import { ClaudeSDKError } from '../src/errors.js';
+import { useFakeCLI } from './helpers/fake-cli.js';
+
+describe('Session stores', () => {
+  const cli = useFakeCLI('store');
+
+  it('should record prompts, messages, session IDs and usage', async () => {
+    const store = new MemorySessionStore();
+    const conversation = cli
+      .fake()
+      .withModel('sonnet')
+      .withSessionStore(store)
+      .asConversation(false, 'chat-1');
+
+    expect(await conversation.query('Hello').asText()).toBe('Echo: Hello');
+
+    const stored = await loadConversation(store, 'chat-1');
+    expect(stored).toEqual(
+      expect.objectContaining({
+        key: 'chat-1',
+        sessionId: 'fake-session-id',
+        sessionIds: ['fake-session-id'],
+        options: expect.objectContaining({ model: 'sonnet' })
+      })
+    );
+    expect(stored!.messages.map((message) => message.type)).toEqual([
+      'user',
+      'system',
+      'assistant',
+      'result'
+    ]);
+    expect(stored!.messages[0]).toEqual(
+      expect.objectContaining({ type: 'user', content: 'Hello' })
+    );
+    expect(stored!.usage).toEqual(
+      expect.objectContaining({ inputTokens: 1, outputTokens: 1 })
+    );
+    expect(stored!.options.env).toBeUndefined();
+  });
+
+  it('should not store partial messages', async () => {
+    const store = new MemorySessionStore();
+    const conversation = cli
+      .fake({ turns: [[{ text: 'Hello there' }, { result: 'Hello there' }]] })
+      .withPartialMessages()
+      .withSessionStore(store)
+      .asConversation(false, 'chat-1');
+
+    const types = (await conversation.query('Hi').asArray()).map(
+      (message) => message.type
+    );
+    expect(types).toContain('stream_event');
+
+    const stored = await loadConversation(store, 'chat-1');
+    expect(stored!.messages.map((message) => message.type)).toEqual([
+      'user',
+      'system',
+      'assistant',
+      'result'
+    ]);
+  });
+
+  it('should resume a stored conversation after a restart', async () => {
+    const directory = join(cli.dir, 'sessions');
+    const first = cli
+      .fake()
+      .withModel('opus')
+      .withSessionStore(new FileSessionStore(directory))
+      .asConversation(false, 'user/42');
+    await first.query('Remember 7').asText();
+
+    // A new process: fresh store instance and builder without the model
+    const store = new FileSessionStore(directory);
+    const resumed = await cli
+      .fake()
+      .withSessionStore(store)
+      .resumeConversation('user/42');
+
+    expect(resumed.getSessionId()).toBe('fake-session-id');
+    expect(await resumed.query('What number?').asText()).toBe(
+      'Echo: What number?'
+    );
+
+    const starts = (await cli.readLog()).filter(
+      (entry) => entry.event === 'start'
+    );
+    expect(starts[1].argv).toEqual(
+      expect.arrayContaining(['--resume', 'fake-session-id', '--model', 'opus'])
+    );
+
+    expect(await store.keys()).toEqual(['user/42']);
+    const stored = await loadConversation(store, 'user/42');
+    expect(
+      stored!.messages
+        .filter((message) => message.type === 'user')
+        .map((message) => message.content)
+    ).toEqual(['Remember 7', 'What number?']);
+    expect(stored!.usage.outputTokens).toBe(2);
+  });
+
+  it('should start a new conversation for an unknown key', async () => {
+    const store = new MemorySessionStore();
+    const conversation = await cli
+      .fake()
+      .withSessionStore(store)
+      .resumeConversation('new-chat');
+
+    expect(conversation.getSessionId()).toBeNull();
+    await conversation.query('Hi').asText();
+    expect((await loadConversation(store, 'new-chat'))!.sessionId).toBe(
+      'fake-session-id'
+    );
+  });
+
+  it('should require a store for keyed conversations', async () => {
+    expect(() => claude().asConversation(false, 'chat')).toThrow(
+      ClaudeSDKError
+    );
+    await expect(claude().resumeConversation('chat')).rejects.toThrow(
+      ClaudeSDKError
+    );
+  });
+});
+
+describe('storableOptions', () => {
+  it('should drop callbacks, secrets and in-process servers', () => {
+    const sdk = createSdkMcpServer([]);
+
+    expect(
+      storableOptions({
+        model: 'sonnet',
+        apiKey: 'sk-secret',
+        env: { TOKEN: 'secret' },
+        canUseTool: async () => ({ behavior: 'allow' }),
+        debug: () => {},
+        keepAlive: true,
+        sessionId: 'session-1',
+        mcpServers: { sdk, files: { command: 'mcp-files' } }
+      })
+    ).toEqual({
+      model: 'sonnet',
+      mcpServers: { files: { command: 'mcp-files' } }
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import { claude } from '../src/fluent.js';
+import { ResponseParser } from '../src/parser.js';
+import { StructuredOutputError } from '../src/errors.js';
+import { validateJSONSchema } from '../src/_internal/structured.js';
+import type {
+  JSONSchema,
+  Message,
+  StructuredValidator,
+  Transport,
+  TransportConfig
+} from '../src/types.js';
+
+// Transport that answers each query with the next reply and records configs
+function scriptedTransport(replies: string[]) {
+  const configs: TransportConfig[] = [];
+
+  const factory = (config: TransportConfig): Transport => {
+    configs.push(config);
+    const reply = replies[configs.length - 1] ?? '';
+    return {
+      connect: async () => {},
+      async *receiveMessages() {
+        yield {
+          type: 'assistant',
+          session_id: 'structured-session',
+          message: { content: [{ type: 'text', text: reply }] }
+        } as any;
+        yield {
+          type: 'result',
+          subtype: 'success',
+          session_id: 'structured-session',
+          result: reply
+        } as any;
+      },
+      writeToStdin: () => {},
+      writeMessage: () => {},
+      closeStdin: () => {},
+      terminate: async () => {},
+      disconnect: async () => {},
+      isActive: () => false
+    };
+  };
+
+  return { factory, configs };
+}
+
+const personSchema: JSONSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    age: { type: 'integer', minimum: 0 }
+  },
+  required: ['name', 'age'],
+  additionalProperties: false
+};
+
+describe('asStructured', () => {
+  it('should put the schema in the system prompt and validate the reply', async () => {
+    const { factory, configs } = scriptedTransport([
+      '```json\n{"name": "Ada", "age": 36}\n```'
+    ]);
+
+    const person = await claude()
+      .withTransport(factory)
+      .appendSystemPrompt('Be terse.')
+      .query('Who wrote the first program?')
+      .asStructured<{ name: string; age: number }>(personSchema);
+
+    expect(person).toEqual({ name: 'Ada', age: 36 });
+    expect(configs).toHaveLength(1);
+    expect(configs[0]!.prompt).toBe('Who wrote the first program?');
+    expect(configs[0]!.options.appendSystemPrompt).toMatch(
+      /^Be terse\.\n\nRespond with a single JSON value/
+    );
+    expect(configs[0]!.options.appendSystemPrompt).toContain(
+      '"required": [\n    "name",\n    "age"\n  ]'
+    );
+  });
+
+  it('should re-prompt in the same session with the validation errors', async () => {
+    const { factory, configs } = scriptedTransport([
+      'Sure! {"name": "Ada", "age": -1}',
+      '{"name": "Ada", "age": 36}'
+    ]);
+
+    const person = await claude()
+      .withTransport(factory)
+      .query('Who wrote the first program?')
+      .asStructured(personSchema);
+
+    expect(person).toEqual({ name: 'Ada', age: 36 });
+    expect(configs).toHaveLength(2);
+    expect(configs[1]!.options.sessionId).toBe('structured-session');
+    expect(configs[1]!.prompt).toContain('- $.age: must be >= 0');
+  });
+
+  it('should structure and re-prompt conversation queries', async () => {
+    const { factory, configs } = scriptedTransport([
+      '{"name": "Ada"}',
+      '{"name": "Ada", "age": 36}'
+    ]);
+    const conversation = claude().withTransport(factory).asConversation();
+    const prompts: unknown[] = [];
+    conversation.onUserMessage((message) => prompts.push(message.content));
+
+    const person = await conversation
+      .query('Who wrote the first program?')
+      .asStructured(personSchema);
+
+    expect(person).toEqual({ name: 'Ada', age: 36 });
+    expect(configs).toHaveLength(2);
+    expect(configs[0]!.options.appendSystemPrompt).toMatch(
+      /^Respond with a single JSON value/
+    );
+    expect(configs[1]!.options.sessionId).toBe('structured-session');
+    expect(configs[1]!.prompt).toContain('- $.age: is required');
+    expect(prompts).toEqual([
+      'Who wrote the first program?',
+      configs[1]!.prompt
+    ]);
+    expect(conversation.getSessionId()).toBe('structured-session');
+    await conversation.dispose();
+  });
+
+  it('should throw StructuredOutputError once retries are used up', async () => {
+    const { factory, configs } = scriptedTransport([
+      'I cannot answer that.',
+      '{"name": "Ada"}'
+    ]);
+
+    const error = await claude()
+      .withTransport(factory)
+      .query('Who wrote the first program?')
+      .asStructured<{ name: string; age: number }>(personSchema, {
+        maxRetries: 1
+      })
+      .catch((e) => e);
+
+    expect(configs).toHaveLength(2);
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.rawText).toBe('{"name": "Ada"}');
+    expect(error.failures).toEqual(['$.age: is required']);
+    expect(error.attempts).toBe(2);
+  });
+
+  it('should accept a Zod-style validator', async () => {
+    const { factory, configs } = scriptedTransport(['["a", "b"]', '["a", 1]']);
+    const stringArray: StructuredValidator<string[]> = {
+      safeParse: (data) =>
+        Array.isArray(data) && data.every((item) => typeof item === 'string')
+          ? { success: true, data }
+          : {
+              success: false,
+              error: {
+                message: 'Invalid',
+                issues: [{ path: [1], message: 'Expected string' }]
+              }
+            }
+    };
+
+    const tags = await claude()
+      .withTransport(factory)
+      .query('Tag this')
+      .asStructured(stringArray, { jsonSchema: { type: 'array' } });
+
+    expect(tags).toEqual(['a', 'b']);
+    expect(configs[0]!.options.appendSystemPrompt).toContain('"type": "array"');
+  });
+
+  it('should validate without retrying when the query cannot be re-run', async () => {
+    async function* messages(): AsyncGenerator<Message> {
+      yield { type: 'assistant', content: [{ type: 'text', text: '[1, 2]' }] };
+    }
+
+    const error = await new ResponseParser(messages())
+      .asStructured<object>({ type: 'object' })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.failures).toEqual(['$: expected object, got array']);
+  });
+});
+
+describe('validateJSONSchema', () => {
+  it('should report every failure with its path', () => {
+    const schema: JSONSchema = {
+      type: 'object',
+      properties: {
+        status: { enum: ['open', 'closed'] },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+        id: { type: 'string', pattern: '^T-\\d+$' }
+      },
+      required: ['id']
+    };
+
+    expect(
+      validateJSONSchema(schema, { status: 'done', tags: ['a', 2, 'c'] })
+    ).toEqual([
+      '$.id: is required',
+      '$.status: must be one of "open", "closed"',
+      '$.tags: must have at most 2 items',
+      '$.tags[1]: expected string, got number'
+    ]);
+    expect(
+      validateJSONSchema(schema, { id: 'T-12', tags: ['a'], status: 'open' })
+    ).toEqual([]);
+  });
+
+  it('should support anyOf and nullable types', () => {
+    const schema: JSONSchema = {
+      anyOf: [{ type: 'string' }, { type: 'number', minimum: 1 }]
+    };
+
+    expect(validateJSONSchema(schema, 'x')).toEqual([]);
+    expect(validateJSONSchema(schema, 0)).toEqual([
+      '$: does not match any allowed schema'
+    ]);
+    expect(validateJSONSchema({ type: ['string', 'null'] }, null)).toEqual([]);
+  });
+});
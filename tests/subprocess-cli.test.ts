@@ -1,10 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { SubprocessCLITransport } from '../src/_internal/transport/subprocess-cli.js';
+import { resetCLIDiscovery } from '../src/_internal/transport/cli-discovery.js';
 import {
   CLIConnectionError,
   CLINotFoundError,
   CLIJSONDecodeError
 } from '../src/errors.js';
+import { createSdkMcpServer } from '../src/mcp.js';
 import { execa } from 'execa';
 import which from 'which';
 import { Readable } from 'node:stream';
@@ -19,6 +21,7 @@ describe('SubprocessCLITransport', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    resetCLIDiscovery();
     stdoutStream = new Readable({
       read() {}
     });
@@ -74,6 +77,17 @@ describe('SubprocessCLITransport', () => {
       ]);
     });
 
+    it('should search for the CLI once per process', async () => {
+      vi.mocked(which as any).mockResolvedValue('/usr/local/bin/claude-code');
+      vi.mocked(execa).mockReturnValue(mockProcess as any);
+
+      await new SubprocessCLITransport('first').connect();
+      await new SubprocessCLITransport('second').connect();
+
+      expect(which).toHaveBeenCalledTimes(1);
+      expect(execa).toHaveBeenCalledTimes(2);
+    });
+
     it('should throw CLINotFoundError when CLI not found anywhere', async () => {
       vi.mocked(which).mockRejectedValue(new Error('not found'));
       vi.mocked(execa).mockRejectedValue(new Error('not found'));
@@ -145,6 +159,60 @@ describe('SubprocessCLITransport', () => {
       );
     });
 
+    it('should pass other permission modes with --permission-mode', async () => {
+      vi.mocked(which as any).mockResolvedValue('/usr/local/bin/claude-code');
+      vi.mocked(execa).mockReturnValue(mockProcess as any);
+
+      const transport = new SubprocessCLITransport('test prompt', {
+        permissionMode: 'acceptEdits',
+        canUseTool: () => ({ behavior: 'allow' })
+      });
+      await transport.connect();
+
+      const args = vi.mocked(execa).mock.calls[0]![1] as string[];
+      expect(args).toEqual(
+        expect.arrayContaining([
+          '--permission-mode',
+          'acceptEdits',
+          '--permission-prompt-tool',
+          'stdio'
+        ])
+      );
+      expect(args).not.toContain('--dangerously-skip-permissions');
+    });
+
+    it('should reference SDK MCP servers by name and allow their tools', async () => {
+      vi.mocked(which as any).mockResolvedValue('/usr/local/bin/claude-code');
+      vi.mocked(execa).mockReturnValue(mockProcess as any);
+
+      const transport = new SubprocessCLITransport('test prompt', {
+        allowedTools: ['Read'],
+        mcpServers: {
+          files: { command: 'mcp-files' },
+          internal: createSdkMcpServer([
+            {
+              name: 'lookup',
+              description: 'Look something up',
+              inputSchema: { type: 'object' },
+              handler: () => 'found'
+            }
+          ])
+        }
+      });
+      await transport.connect();
+
+      const args = vi.mocked(execa).mock.calls[0]![1] as string[];
+      expect(args[args.indexOf('--allowedTools') + 1]).toBe(
+        'Read,mcp__internal__lookup'
+      );
+      expect(JSON.parse(args[args.indexOf('--mcp-config') + 1]!)).toEqual({
+        mcpServers: {
+          files: { command: 'mcp-files' },
+          internal: { type: 'sdk', name: 'internal' }
+        }
+      });
+    });
+
     it('should include --add-dir flag when addDirectories is provided', async () => {
       vi.mocked(which as any).mockResolvedValue('/usr/local/bin/claude-code');
       vi.mocked(execa).mockReturnValue(mockProcess as any);
@@ -339,6 +407,41 @@ describe('SubprocessCLITransport', () => {
       expect(received).toEqual(messages);
     });
 
+    it('should pause stdout while the consumer falls behind', async () => {
+      vi.mocked(which as any).mockResolvedValue('/usr/local/bin/claude-code');
+      vi.mocked(execa).mockReturnValue(mockProcess as any);
+      const pauseSpy = vi.spyOn(stdoutStream, 'pause');
+      const resumeSpy = vi.spyOn(stdoutStream, 'resume');
+
+      const transport = new SubprocessCLITransport('test prompt');
+      await transport.connect();
+
+      const total = 1500;
+      const chunk = Array.from(
+        { length: total },
+        (_, i) => JSON.stringify({ type: 'assistant', index: i }) + '\n'
+      ).join('');
+
+      const iterator = transport.receiveMessages();
+      const first = iterator.next();
+      stdoutStream.push(chunk);
+      stdoutStream.push(null);
+
+      expect(await first).toEqual({
+        value: { type: 'assistant', index: 0 },
+        done: false
+      });
+      expect(pauseSpy).toHaveBeenCalled();
+
+      let count = 1;
+      for await (const _msg of { [Symbol.asyncIterator]: () => iterator }) {
+        count++;
+      }
+
+      expect(count).toBe(total);
+      expect(resumeSpy).toHaveBeenCalled();
+    });
+
     it('should throw CLIConnectionError when not connected', async () => {
       const transport = new SubprocessCLITransport('test prompt');
 
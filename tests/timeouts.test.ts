@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { query } from '../src/index.js';
+import { fakeClaudePath, fakeClaudeEnv } from '../src/testing.js';
+import { AbortError, TimeoutError } from '../src/errors.js';
+import { useFakeCLI, hasExited } from './helpers/fake-cli.js';
+
+describe('Timeouts and abort', () => {
+  const cli = useFakeCLI('timeouts');
+
+  it('should time out an idle turn and kill the process tree', async () => {
+    const scenario = {
+      turns: [[{ text: 'Working', spawnChild: true }, { delayMs: 30000 }]]
+    };
+
+    const error = await cli
+      .fake(scenario)
+      .withTimeout({ idle: 300 })
+      .query('Go')
+      .asArray()
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.kind).toBe('idle');
+    expect(error.timeoutMs).toBe(300);
+    expect(error.sessionId).toBe('fake-session-id');
+
+    const child = (await cli.readLog()).find(
+      (entry) => entry.event === 'child'
+    );
+    expect(await hasExited(child.pid)).toBe(true);
+  });
+
+  it('should kill the process tree of a recorded query', async () => {
+    const scenario = {
+      turns: [
+        [
+          { text: 'Working', spawnChild: true, stderr: 'Still working\n' },
+          { delayMs: 30000 }
+        ]
+      ]
+    };
+
+    const error = await cli
+      .fake(scenario)
+      .withRecording(join(cli.dir, 'cassette.jsonl'))
+      .withTimeout({ idle: 300 })
+      .query('Go')
+      .asArray()
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.stderr).toContain('Still working');
+
+    const child = (await cli.readLog()).find(
+      (entry) => entry.event === 'child'
+    );
+    expect(await hasExited(child.pid)).toBe(true);
+  });
+
+  it('should enforce the total timeout while messages keep arriving', async () => {
+    const scenario = {
+      turns: [
+        Array.from({ length: 50 }, (_, i) => ({
+          text: `Step ${i}`,
+          delayMs: 100
+        }))
+      ]
+    };
+
+    const started = Date.now();
+    const error = await cli
+      .fake(scenario)
+      .withTimeout({ idle: 1000, total: 500 })
+      .query('Go')
+      .asArray()
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.kind).toBe('total');
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('should time out when the CLI never responds', async () => {
+    const error = await cli
+      .fake({ stallMs: 30000 })
+      .withTimeout(300)
+      .query('Go')
+      .asText()
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.kind).toBe('connect');
+  });
+
+  it('should reject with AbortError when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const scenario = {
+      turns: [[{ text: 'Working' }, { delayMs: 30000 }, { result: 'done' }]]
+    };
+
+    const messages: string[] = [];
+    const error = await cli
+      .fake(scenario)
+      .query('Go', controller.signal)
+      .stream(async (message) => {
+        messages.push(message.type);
+        if (message.type === 'assistant') controller.abort('user cancelled');
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error.reason).toBe('user cancelled');
+    expect(messages).not.toContain('result');
+  });
+
+  it('should not start the CLI for an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const consume = async () => {
+      for await (const _message of query('Go', {
+        executablePath: fakeClaudePath,
+        env: fakeClaudeEnv({}, cli.logFile),
+        signal: controller.signal
+      })) {
+        // Nothing should arrive
+      }
+    };
+
+    await expect(consume()).rejects.toThrow(AbortError);
+    await expect(readFile(cli.logFile, 'utf8')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { claude } from '../src/fluent.js';
+import { UsageTracker } from '../src/usage-tracker.js';
+import { fakeClaudePath, fakeClaudeEnv } from '../src/testing.js';
+import type { FakeClaudeScenario } from '../src/testing.js';
+
+const result = (
+  cost: number,
+  usage: Record<string, number>,
+  text: string = 'Done'
+) => [
+  { text },
+  {
+    message: {
+      type: 'result',
+      subtype: 'success',
+      is_error: false,
+      result: text,
+      total_cost_usd: cost,
+      usage
+    }
+  }
+];
+
+const fake = (scenario: FakeClaudeScenario) =>
+  claude().withExecutable(fakeClaudePath).withEnv(fakeClaudeEnv(scenario));
+
+describe('UsageTracker', () => {
+  it('should aggregate tracked queries by model and tag', async () => {
+    const usage = new UsageTracker();
+
+    const text = await usage
+      .track(
+        fake({
+          turns: [
+            result(0.25, {
+              input_tokens: 10,
+              output_tokens: 20,
+              cache_read_input_tokens: 30
+            })
+          ]
+        })
+          .withModel('opus')
+          .query('First'),
+        { tags: ['billing'] }
+      )
+      .asText();
+    expect(text).toBe('Done');
+
+    await usage
+      .track(
+        fake({
+          turns: [
+            result(0.5, {
+              input_tokens: 40,
+              output_tokens: 10,
+              cache_creation_input_tokens: 20
+            })
+          ]
+        })
+          .withModel('sonnet')
+          .query('Second'),
+        { tags: ['billing', 'search, v2'] }
+      )
+      .asText();
+
+    expect(usage.getRecords()).toHaveLength(2);
+    expect(usage.getRecords()[0]).toMatchObject({
+      model: 'opus',
+      sessionId: 'fake-session-id',
+      tags: ['billing'],
+      totalTokens: 30
+    });
+
+    expect(usage.summary()).toMatchObject({
+      queries: 2,
+      inputTokens: 50,
+      outputTokens: 30,
+      cacheCreationTokens: 20,
+      cacheReadTokens: 30,
+      totalTokens: 80,
+      totalCost: 0.75,
+      cacheHitRatio: 0.3
+    });
+
+    const byModel = usage.summarize('model');
+    expect(Object.keys(byModel)).toEqual(['opus', 'sonnet']);
+    expect(byModel.opus!.cacheHitRatio).toBe(0.75);
+    expect(byModel.sonnet!.cacheHitRatio).toBe(0);
+
+    const byTag = usage.summarize('tag');
+    expect(byTag.billing!.queries).toBe(2);
+    expect(byTag['search, v2']!.totalCost).toBe(0.5);
+    expect(usage.summary({ tags: ['search, v2'] }).queries).toBe(1);
+
+    expect(usage.exportCSV('tag').split('\n')).toEqual([
+      'tag,queries,inputTokens,outputTokens,cacheCreationTokens,cacheReadTokens,totalTokens,totalCost,cacheHitRatio',
+      'billing,2,50,30,20,30,80,0.75,0.3',
+      '"search, v2",1,40,10,20,0,50,0.5,0',
+      ''
+    ]);
+
+    const report = JSON.parse(usage.exportJSON('model'));
+    expect(report.groupBy).toBe('model');
+    expect(report.total.queries).toBe(2);
+    expect(report.groups.sonnet.totalCost).toBe(0.5);
+  });
+
+  it('should record every turn of a tracked conversation', async () => {
+    const usage = new UsageTracker();
+    const conversation = usage.track(
+      fake({
+        turns: [
+          result(0.1, { input_tokens: 5, output_tokens: 5 }, 'One'),
+          result(0.2, { input_tokens: 7, output_tokens: 3 }, 'Two')
+        ]
+      }).asConversation(true),
+      { tags: ['chat'] }
+    );
+
+    let onResult: () => void = () => {};
+    conversation.stream((message) => {
+      if (message.type === 'result') onResult();
+    });
+    const nextResult = () =>
+      new Promise<void>((resolve) => {
+        onResult = resolve;
+      });
+
+    const firstResult = nextResult();
+    const done = conversation.query('First').asArray();
+    await firstResult;
+
+    const secondResult = nextResult();
+    await conversation.send('Second');
+    await secondResult;
+
+    await conversation.end();
+    await done;
+    await conversation.dispose();
+
+    expect(usage.summarize('session')).toMatchObject({
+      'fake-session-id': { queries: 2, totalTokens: 20 }
+    });
+    expect(usage.summary().totalCost).toBeCloseTo(0.3);
+  });
+
+  it('should filter records by time window', async () => {
+    const usage = new UsageTracker();
+    await usage
+      .track(
+        fake({
+          turns: [result(0.1, { input_tokens: 1, output_tokens: 1 })]
+        }).query('Go')
+      )
+      .asText();
+
+    const [record] = usage.getRecords();
+    const day = record!.at.slice(0, 10);
+    expect(Object.keys(usage.summarize('day'))).toEqual([day]);
+    expect(Object.keys(usage.summarize('hour'))).toEqual([
+      `${record!.at.slice(0, 13)}:00Z`
+    ]);
+    expect(usage.summarize('tag')).toHaveProperty('(none)');
+
+    const later = new Date(Date.parse(record!.at) + 1000);
+    expect(usage.getRecords({ since: later })).toEqual([]);
+    expect(usage.getRecords({ until: later })).toHaveLength(1);
+
+    usage.reset();
+    expect(usage.summary().queries).toBe(0);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { WarmProcessPool } from '../src/warm-pool.js';
+import type { FakeClaudeScenario } from '../src/testing.js';
+import { useFakeCLI } from './helpers/fake-cli.js';
+
+describe('WarmProcessPool', () => {
+  const cli = useFakeCLI('warm-pool');
+  let pool: WarmProcessPool;
+
+  afterEach(async () => {
+    await pool.shutdown();
+  });
+
+  const scenario: FakeClaudeScenario = {
+    turns: [
+      [{ text: 'One' }, { result: 'One' }],
+      [{ text: 'Two' }, { result: 'Two' }],
+      [{ text: 'Three' }, { result: 'Three' }]
+    ]
+  };
+  const builder = () => cli.fake(scenario).withProcessPool(pool);
+
+  it('should serve conversations from prewarmed processes', async () => {
+    pool = new WarmProcessPool();
+    await pool.prewarm(builder().asConversation().getOptions());
+    expect(pool.getStats()).toMatchObject({ idle: 1, spawned: 1, reused: 0 });
+
+    const conversation = builder().asConversation();
+    expect(await conversation.query('First').asText()).toBe('One');
+    expect(pool.getStats()).toMatchObject({ leased: 0, reused: 1 });
+
+    // The process that ran the first turn resumes the session: a new one
+    // would start over with the first turn of the scenario
+    expect(await conversation.query('Second').asText()).toBe('Two');
+    expect(pool.getStats()).toMatchObject({ leased: 0, reused: 2 });
+    await conversation.dispose();
+
+    // The prewarmed process and the one started to replace it
+    expect(pool.getStats()).toMatchObject({ idle: 2, spawned: 2 });
+
+    // Prompts reach a leased process the way a fresh one gets them
+    const prompts = (await cli.readLog())
+      .filter((entry) => entry.event === 'stdin')
+      .map((entry) => JSON.parse(entry.data).message.content);
+    expect(prompts).toEqual([
+      [{ type: 'text', text: 'First' }],
+      [{ type: 'text', text: 'Second' }]
+    ]);
+  });
+
+  it('should take a keepAlive conversation back when it ends', async () => {
+    pool = new WarmProcessPool();
+    const conversation = builder().asConversation(true);
+
+    let onResult: () => void = () => {};
+    conversation.stream((message) => {
+      if (message.type === 'result') onResult();
+    });
+    const nextResult = () =>
+      new Promise<void>((resolve) => {
+        onResult = resolve;
+      });
+
+    const firstResult = nextResult();
+    const done = conversation.query('First').asArray();
+    await firstResult;
+    expect(pool.getStats()).toMatchObject({ leased: 1, spawned: 1 });
+
+    const secondResult = nextResult();
+    await conversation.send('Second');
+    await secondResult;
+
+    await conversation.end();
+    await done;
+    expect(pool.getStats()).toMatchObject({ idle: 1, leased: 0 });
+
+    // The next query resumes the session on the same process
+    const thirdResult = nextResult();
+    const third = conversation.query('Third').asText();
+    await thirdResult;
+    await conversation.end();
+    expect(await third).toBe('Three');
+    await conversation.dispose();
+
+    const log = await cli.readLog();
+    expect(log.filter((entry) => entry.event === 'start')).toHaveLength(1);
+    expect(pool.getStats()).toMatchObject({ spawned: 1, reused: 1 });
+  });
+
+  it('should start a process of its own for in-process MCP servers', async () => {
+    pool = new WarmProcessPool();
+    const text = await builder()
+      .withTool({
+        name: 'get_time',
+        description: 'Current time',
+        inputSchema: { type: 'object' },
+        handler: () => 'noon'
+      })
+      .asConversation()
+      .query('Hi')
+      .asText();
+
+    expect(text).toBe('One');
+    expect(pool.getStats()).toMatchObject({ idle: 0, leased: 0, spawned: 0 });
+  });
+
+  it('should evict processes over maxIdle or idle for too long', async () => {
+    pool = new WarmProcessPool({ maxIdle: 1, idleTimeoutMs: 200 });
+    await pool.prewarm(builder().asConversation().getOptions(), 2);
+    expect(pool.getStats()).toMatchObject({ idle: 1, spawned: 2, evicted: 1 });
+
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    expect(pool.getStats()).toMatchObject({ idle: 0, evicted: 2 });
+
+    await pool.shutdown();
+    // A closed pool starts every query on a process of its own
+    const text = await builder().asConversation().query('Hi').asText();
+    expect(text).toBe('One');
+    expect(pool.getStats().spawned).toBe(2);
+  });
+});